@@ -1,46 +1,96 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useParams } from 'next/navigation';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
 import { web3Service } from '@/lib/web3';
 import { useWeb3 } from '@/contexts/Web3Context';
+import { getNetwork } from '@/lib/networks';
+import { isNativeToken } from '@/lib/tokens';
+import CampaignBackers from '@/components/CampaignBackers';
+import FundingTimeline from '@/components/FundingTimeline';
+import CampaignMilestones from '@/components/CampaignMilestones';
+import LaunchCountdown from '@/components/LaunchCountdown';
+import FundingProgress from '@/components/FundingProgress';
+import FeePreviewModal, { FeePreviewRequest } from '@/components/FeePreviewModal';
+import { FeePreset } from '@/lib/fees';
 
 interface CampaignDetails {
   name: string;
   description: string;
   goal: string;
   deadline: number;
+  startTime: number;
   owner: string;
   paused: boolean;
   state: number;
   balance: string;
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  fundUntilDeadline: boolean;
+  hardCap: string;
+  stretchGoals: string[];
   tiers: Array<{
     name: string;
     amount: string;
     backers: number;
+    id: number;
+    description: string;
+    maxBackers: number;
+    deliveryDate: number;
   }>;
 }
 
+// selectedTier value for a free-form donation instead of a tier
+const CUSTOM_AMOUNT = -1;
+
+// datetime-local inputs take local time without a zone suffix
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export default function CampaignPage() {
   const params = useParams();
   const address = params.address as string;
-  const { account, connectWallet } = useWeb3();
+  const searchParams = useSearchParams();
+  const chainId = Number(searchParams.get('chainId')) || undefined;
+  const { account, connectWallet, lastEvent } = useWeb3();
 
   const [campaign, setCampaign] = useState<CampaignDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedTier, setSelectedTier] = useState<number>(0);
   const [funding, setFunding] = useState(false);
+  const [feePreview, setFeePreview] = useState<FeePreviewRequest | null>(null);
+  const [customAmount, setCustomAmount] = useState('');
+  const [minDonationInput, setMinDonationInput] = useState('');
+  const [settingMinDonation, setSettingMinDonation] = useState(false);
+  const [stretchGoalInput, setStretchGoalInput] = useState('');
+  const [addingStretchGoal, setAddingStretchGoal] = useState(false);
 
   // Owner management states
   const [showAddTier, setShowAddTier] = useState(false);
   const [newTierName, setNewTierName] = useState('');
   const [newTierAmount, setNewTierAmount] = useState('');
+  const [newTierDescription, setNewTierDescription] = useState('');
+  const [newTierMaxBackers, setNewTierMaxBackers] = useState('');
+  const [newTierDelivery, setNewTierDelivery] = useState('');
   const [addingTier, setAddingTier] = useState(false);
   const [removingTier, setRemovingTier] = useState<number | null>(null);
+  const [editingTier, setEditingTier] = useState<number | null>(null);
+  const [editTierName, setEditTierName] = useState('');
+  const [editTierAmount, setEditTierAmount] = useState('');
+  const [savingTier, setSavingTier] = useState(false);
   const [withdrawing, setWithdrawing] = useState(false);
   const [pausing, setPausing] = useState(false);
-  const [extendDays, setExtendDays] = useState('');
+  // datetime-local value for the new deadline
+  const [newDeadline, setNewDeadline] = useState('');
   const [extending, setExtending] = useState(false);
 
   // Edit campaign states
@@ -53,48 +103,116 @@ export default function CampaignPage() {
   // Extend deadline modal state
   const [showExtendModal, setShowExtendModal] = useState(false);
 
+  const [canClaimRefund, setCanClaimRefund] = useState(false);
+  const [pendingWithdrawal, setPendingWithdrawal] = useState('0');
+  const [withdrawingPayments, setWithdrawingPayments] = useState(false);
+  // Unix time a pending emergency withdrawal unlocks; 0 when none is pending
+  const [emergencyAvailableAt, setEmergencyAvailableAt] = useState(0);
+  const [emergencyProcessing, setEmergencyProcessing] = useState(false);
+
+  const [milestones, setMilestones] = useState<Array<{
+    title: string;
+    percentage: number;
+    approvals: string;
+    released: boolean;
+  }>>([]);
+  const [currentMilestone, setCurrentMilestone] = useState(0);
+  const [activeTab, setActiveTab] = useState<'tiers' | 'backers' | 'timeline'>('tiers');
+
   const loadCampaign = useCallback(async () => {
     try {
       setLoading(true);
-      
+
+      // Reads and writes for this campaign target the chain it was listed on
+      if (chainId) {
+        web3Service.setCampaignChain(address, chainId);
+      }
 
       const details = await web3Service.getCampaignDetails(address);
       setCampaign(details);
       setEditName(details.name);
       setEditDescription(details.description);
       setEditGoal(details.goal);
+
+      // Refunds open once the campaign has failed, even before anyone settles its state on-chain
+      setCanClaimRefund(account ? await web3Service.canRefund(address) : false);
+      setPendingWithdrawal(account ? await web3Service.getPendingWithdrawal(address, account) : '0');
+      setEmergencyAvailableAt(await web3Service.getEmergencyWithdrawAvailableAt(address));
+
+      const milestoneStatus = await web3Service.getMilestones(address);
+      setMilestones(milestoneStatus.milestones);
+      setCurrentMilestone(milestoneStatus.currentMilestone);
     } catch (err) {
       setError('Failed to load campaign details');
       console.error(err);
     } finally {
       setLoading(false);
     }
-  }, [address]);
+  }, [address, chainId, account]);
 
   useEffect(() => {
     loadCampaign();
   }, [loadCampaign]);
 
-  const handleFund = async () => {
+  // The app-wide listeners already announce stretch goals; refresh the progress bar when this one reaches one.
+  // Each event is handled once, so a new loadCampaign (e.g. after an account switch) does not reload again.
+  const handledEvent = useRef(lastEvent);
+  useEffect(() => {
+    if (!lastEvent || lastEvent === handledEvent.current) return;
+    handledEvent.current = lastEvent;
+    if (lastEvent.type === 'stretch_goal_reached' && lastEvent.campaignAddress.toLowerCase() === address.toLowerCase()) {
+      loadCampaign();
+    }
+  }, [lastEvent, address, loadCampaign]);
+
+  const handleFund = () => {
     if (!campaign || !account) {
       setError('Please connect your wallet first');
       return;
     }
 
-    if (campaign.tiers.length === 0) {
-      setError('No funding tiers available. The campaign owner needs to add tiers first.');
+    // Campaigns without tiers can only take free-form donations
+    const donating = selectedTier === CUSTOM_AMOUNT || campaign.tiers.length === 0;
+
+    if (donating && !(parseFloat(customAmount) > 0)) {
+      setError('Please enter an amount to contribute');
       return;
     }
 
-    if (!campaign.tiers[selectedTier]) {
+    if (!donating && !campaign.tiers[selectedTier]) {
       setError('Please select a valid tier');
       return;
     }
 
+    const amount = donating ? customAmount : campaign.tiers[selectedTier].amount;
+    setFeePreview({
+      action: donating
+        ? { type: 'donate', campaignAddress: address, amount }
+        : { type: 'fund', campaignAddress: address, tierIndex: selectedTier, amount },
+      title: `${donating ? 'Contribute' : 'Fund'} ${amount} ${campaign.token.symbol}`,
+      onConfirm: (preset) => fund(donating, preset)
+    });
+  };
+
+  const fund = async (donating: boolean, feePreset: FeePreset) => {
+    if (!campaign) return;
+
     try {
       setFunding(true);
       setError(null);
 
+      if (donating) {
+        console.log('=== DONATION ATTEMPT ===');
+        console.log('Amount:', customAmount);
+
+        await web3Service.donateWithValidation(address, customAmount, feePreset);
+        await loadCampaign();
+
+        alert(`Successfully contributed ${customAmount} ${campaign.token.symbol} to ${campaign.name}!`);
+        setCustomAmount('');
+        return;
+      }
+
       console.log('=== FUNDING ATTEMPT ===');
       console.log('Campaign:', campaign);
       console.log('Selected Tier Index:', selectedTier);
@@ -102,14 +220,14 @@ export default function CampaignPage() {
       console.log('User Address:', account);
 
       const tierAmount = campaign.tiers[selectedTier].amount;
-      await web3Service.fundCampaignWithValidation(address, selectedTier, tierAmount);
+      await web3Service.fundCampaignWithValidation(address, selectedTier, tierAmount, feePreset);
       await loadCampaign();
 
       setError(null);
-      alert(`Successfully funded ${tierAmount} ETH to ${campaign.name}!`);
+      alert(`Successfully funded ${tierAmount} ${campaign.token.symbol} to ${campaign.name}!`);
     } catch (err: unknown) {
       console.error('Funding error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fund campaign';
+      const errorMessage = web3Service.decodeError(err, 'Failed to fund campaign').message;
       setError(errorMessage);
     } finally {
       setFunding(false);
@@ -117,7 +235,7 @@ export default function CampaignPage() {
   };
 
   const formatDeadline = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleDateString();
+    return new Date(timestamp * 1000).toLocaleString();
   };
 
   const getStateText = (state: number) => {
@@ -125,32 +243,89 @@ export default function CampaignPage() {
       case 0: return 'Active';
       case 1: return 'Successful';
       case 2: return 'Failed';
+      case 3: return 'Upcoming';
       default: return 'Unknown';
     }
   };
 
-  const getProgressPercentage = () => {
-    if (!campaign) return 0;
-    return (parseFloat(campaign.balance) / parseFloat(campaign.goal)) * 100;
-  };
-
   const isOwner = () => {
     return account && campaign && account.toLowerCase() === campaign.owner.toLowerCase();
   };
 
-  const handleAddTier = async () => {
+  // Owners manage tiers and details while the campaign runs and before it launches
+  const isEditable = () => {
+    return !!campaign && (campaign.state === 0 || campaign.state === 3);
+  };
+
+  const handleSetMinDonation = async () => {
+    try {
+      setSettingMinDonation(true);
+      await web3Service.setMinDonation(address, minDonationInput || '0');
+      setMinDonationInput('');
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to update minimum donation').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setSettingMinDonation(false);
+    }
+  };
+
+  const handleAddStretchGoal = async () => {
+    if (!stretchGoalInput) return;
+
+    try {
+      setAddingStretchGoal(true);
+      await web3Service.addStretchGoal(address, stretchGoalInput);
+      setStretchGoalInput('');
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to add stretch goal').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setAddingStretchGoal(false);
+    }
+  };
+
+  const resetTierForm = () => {
+    setNewTierName('');
+    setNewTierAmount('');
+    setNewTierDescription('');
+    setNewTierMaxBackers('');
+    setNewTierDelivery('');
+  };
+
+  const isSoldOut = (tier: CampaignDetails['tiers'][number]) => tier.maxBackers > 0 && tier.backers >= tier.maxBackers;
+
+  const handleAddTier = () => {
     if (!newTierName.trim() || !newTierAmount || !campaign) return;
 
+    const options = {
+      description: newTierDescription.trim(),
+      maxBackers: newTierMaxBackers ? Number(newTierMaxBackers) : 0,
+      deliveryDate: newTierDelivery ? Math.floor(new Date(newTierDelivery).getTime() / 1000) : 0
+    };
+    setFeePreview({
+      action: { type: 'addTier', campaignAddress: address, name: newTierName.trim(), amount: newTierAmount, options },
+      title: `Add tier "${newTierName.trim()}"`,
+      onConfirm: (preset) => addTier(options, preset)
+    });
+  };
+
+  const addTier = async (options: { description: string; maxBackers: number; deliveryDate: number }, feePreset: FeePreset) => {
     try {
       setAddingTier(true);
-      await web3Service.addTierWithValidation(address, newTierName.trim(), newTierAmount);
+      await web3Service.addTierWithValidation(address, newTierName.trim(), newTierAmount, options, feePreset);
       await loadCampaign();
-      setNewTierName('');
-      setNewTierAmount('');
+      resetTierForm();
       setShowAddTier(false);
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to add tier';
+      const errorMessage = web3Service.decodeError(err, 'Failed to add tier').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -167,7 +342,7 @@ export default function CampaignPage() {
       await loadCampaign();
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to remove tier';
+      const errorMessage = web3Service.decodeError(err, 'Failed to remove tier').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -175,14 +350,47 @@ export default function CampaignPage() {
     }
   };
 
-  const handleWithdraw = async () => {
+  const startEditTier = (tierIndex: number) => {
+    if (!campaign) return;
+    setEditingTier(tierIndex);
+    setEditTierName(campaign.tiers[tierIndex].name);
+    setEditTierAmount(campaign.tiers[tierIndex].amount);
+  };
+
+  const handleUpdateTier = async () => {
+    if (!campaign || editingTier === null) return;
+
+    try {
+      setSavingTier(true);
+      await web3Service.updateTierWithValidation(address, editingTier, editTierName, editTierAmount);
+      await loadCampaign();
+      setEditingTier(null);
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to update tier').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setSavingTier(false);
+    }
+  };
+
+  const handleWithdraw = () => {
+    setFeePreview({
+      action: { type: 'withdraw', campaignAddress: address },
+      title: 'Withdraw funds',
+      onConfirm: withdraw
+    });
+  };
+
+  const withdraw = async (feePreset: FeePreset) => {
     try {
       setWithdrawing(true);
-      await web3Service.withdrawFunds(address);
+      await web3Service.withdrawFunds(address, feePreset);
       await loadCampaign();
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to withdraw funds';
+      const errorMessage = web3Service.decodeError(err, 'Failed to withdraw funds').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -197,7 +405,7 @@ export default function CampaignPage() {
       await loadCampaign();
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to toggle pause';
+      const errorMessage = web3Service.decodeError(err, 'Failed to toggle pause').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -206,17 +414,17 @@ export default function CampaignPage() {
   };
 
   const handleExtendDeadline = async () => {
-    if (!extendDays || parseInt(extendDays) <= 0) return;
+    if (!newDeadline) return;
 
     try {
       setExtending(true);
-      await web3Service.extendDeadline(address, parseInt(extendDays));
+      await web3Service.extendDeadline(address, Math.floor(new Date(newDeadline).getTime() / 1000));
       await loadCampaign();
-      setExtendDays('');
+      setNewDeadline('');
       setShowExtendModal(false);
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to extend deadline';
+      const errorMessage = web3Service.decodeError(err, 'Failed to extend deadline').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -235,7 +443,7 @@ export default function CampaignPage() {
       setError(null);
       alert('Campaign details updated successfully!');
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update campaign details';
+      const errorMessage = web3Service.decodeError(err, 'Failed to update campaign details').message;
       setError(errorMessage);
       console.error(err);
     } finally {
@@ -268,7 +476,7 @@ export default function CampaignPage() {
       
     } catch (error: unknown) {
       console.error("Error deleting campaign:", error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete campaign';
+      const errorMessage = web3Service.decodeError(error, 'Failed to delete campaign').message;
       setError(errorMessage);
     } finally {
       setDeleting(false);
@@ -282,9 +490,77 @@ export default function CampaignPage() {
       await loadCampaign();
       setError(null);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to get refund';
+      const errorMessage = web3Service.decodeError(err, 'Failed to get refund').message;
+      setError(errorMessage);
+      console.error(err);
+    }
+  };
+
+  const handleWithdrawPayments = async () => {
+    try {
+      setWithdrawingPayments(true);
+      await web3Service.withdrawPayments(address);
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to withdraw payment').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setWithdrawingPayments(false);
+    }
+  };
+
+  const handleRequestEmergencyWithdraw = async () => {
+    if (!confirm('Request an emergency withdrawal? Backers are notified and can claim refunds until the delay has passed. This should only be used in critical situations.')) {
+      return;
+    }
+
+    try {
+      setEmergencyProcessing(true);
+      await web3Service.requestEmergencyWithdraw(address);
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to request emergency withdrawal').message;
       setError(errorMessage);
       console.error(err);
+    } finally {
+      setEmergencyProcessing(false);
+    }
+  };
+
+  const handleCancelEmergencyWithdraw = async () => {
+    try {
+      setEmergencyProcessing(true);
+      await web3Service.cancelEmergencyWithdraw(address);
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to cancel emergency withdrawal').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setEmergencyProcessing(false);
+    }
+  };
+
+  const handleExecuteEmergencyWithdraw = async () => {
+    if (!confirm('Execute the emergency withdrawal? Everything backers have not refunded will be credited to you.')) {
+      return;
+    }
+
+    try {
+      setEmergencyProcessing(true);
+      await web3Service.executeEmergencyWithdraw(address);
+      await loadCampaign();
+      setError(null);
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to execute emergency withdrawal').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setEmergencyProcessing(false);
     }
   };
 
@@ -311,7 +587,7 @@ export default function CampaignPage() {
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <div className="flex justify-between items-start mb-4">
             <h1 className="text-3xl font-bold text-gray-900 truncate w-1/2">{campaign.name}</h1>
-            {isOwner() && campaign.state === 0 && (
+            {isOwner() && isEditable() && (
               <div className='flex flex-row gap-2 flex-wrap'>
                 <button
                   onClick={() => setShowEditCampaign(true)}
@@ -343,8 +619,8 @@ export default function CampaignPage() {
                 </button>
               </div>
             )}
-            {/* Withdraw button for successful campaigns */}
-            {isOwner() && campaign.state === 1 && parseFloat(campaign.balance) > 0 && (
+            {/* Withdraw button for successful campaigns; milestone campaigns release funds below instead */}
+            {isOwner() && campaign.state === 1 && parseFloat(campaign.balance) > 0 && milestones.length === 0 && (
               <button
                 onClick={handleWithdraw}
                 disabled={withdrawing}
@@ -360,11 +636,16 @@ export default function CampaignPage() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             <div className="bg-blue-50 p-4 rounded-lg">
               <h3 className="text-sm font-medium text-blue-600">Goal</h3>
-              <p className="text-2xl font-bold text-blue-900">{campaign.goal} ETH</p>
+              <p className="text-2xl font-bold text-blue-900">{campaign.goal} {campaign.token.symbol}</p>
             </div>
             <div className="bg-green-50 p-4 rounded-lg">
               <h3 className="text-sm font-medium text-green-600">Raised</h3>
-              <p className="text-2xl font-bold text-green-900">{campaign.balance} ETH</p>
+              <p className="text-2xl font-bold text-green-900">{campaign.balance} {campaign.token.symbol}</p>
+              {parseFloat(campaign.donationTotal) > 0 && (
+                <p className="text-xs text-green-700 mt-1">
+                  {campaign.tieredTotal} {campaign.token.symbol} via tiers · {campaign.donationTotal} {campaign.token.symbol} donated
+                </p>
+              )}
             </div>
             <div className="bg-purple-50 p-4 rounded-lg">
               <h3 className="text-sm font-medium text-purple-600">Status</h3>
@@ -372,27 +653,34 @@ export default function CampaignPage() {
             </div>
           </div>
 
-          {/* Progress Bar */}
-          <div className="mb-6">
-            <div className="flex justify-between text-sm font-medium text-gray-700 mb-2">
-              <span>Progress</span>
-              <span className="text-blue-600 font-semibold">
-                {getProgressPercentage().toFixed(1)}%
-              </span>
-            </div>
-
-            <div className="w-full bg-gray-200 rounded-full h-4 shadow-inner relative overflow-hidden">
-              <div
-                className="h-4 rounded-full bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 transition-all duration-500 ease-out"
-                style={{ width: `${Math.min(getProgressPercentage(), 100)}%` }}
-              ></div>
+          <FundingProgress
+            raisedTotal={parseFloat(campaign.tieredTotal) + parseFloat(campaign.donationTotal)}
+            goal={parseFloat(campaign.goal)}
+            stretchGoals={campaign.stretchGoals.map(parseFloat)}
+            symbol={campaign.token.symbol}
+          />
 
-              <div
-                className="absolute top-0 left-0 h-4 w-full rounded-full opacity-20 bg-gradient-to-r from-transparent via-white to-transparent animate-[shine_2s_linear_infinite]"
-                style={{ width: `${Math.min(getProgressPercentage(), 100)}%` }}
-              ></div>
+          {/* Stretch goals, owner only; campaigns that close at their goal have none */}
+          {isOwner() && isEditable() && campaign.fundUntilDeadline && (
+            <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6 text-sm text-gray-700">
+              <input
+                type="number"
+                step="0.001"
+                min="0"
+                value={stretchGoalInput}
+                onChange={(e) => setStretchGoalInput(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={`Stretch goal (${campaign.token.symbol})`}
+              />
+              <button
+                onClick={handleAddStretchGoal}
+                disabled={addingStretchGoal || !stretchGoalInput}
+                className="bg-blue-600 text-white px-3 py-1 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+              >
+                {addingStretchGoal ? 'Adding...' : 'Add Stretch Goal'}
+              </button>
             </div>
-          </div>
+          )}
 
           {/* Campaign Info */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
@@ -402,115 +690,322 @@ export default function CampaignPage() {
             <div>
               <span className="font-medium">Contract: <br /></span> {address}
             </div>
+            <div>
+              <span className="font-medium">Launch: <br /></span> {new Date(campaign.startTime * 1000).toLocaleString()}
+            </div>
             <div>
               <span className="font-medium">Deadline: <br /></span> {formatDeadline(campaign.deadline)}
             </div>
+            <div>
+              <span className="font-medium">Funding policy: <br /></span>
+              {campaign.fundUntilDeadline
+                ? `Funds until the deadline${parseFloat(campaign.hardCap) > 0 ? `, capped at ${campaign.hardCap} ${campaign.token.symbol}` : ''}`
+                : 'Closes when the goal is reached'}
+            </div>
             <div>
               <span className="font-medium">Status: <br /></span> {campaign.paused ? 'Paused' : 'Active'}
             </div>
+            {chainId && (
+              <div>
+                <span className="font-medium">Network: <br /></span> {getNetwork(chainId)?.name ?? chainId}
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Funding Tiers */}
-        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-bold text-gray-900">Funding Tiers</h2>
-            {isOwner() && campaign.state === 0 && (
-              <button
-                onClick={() => setShowAddTier(true)}
-                className="bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors"
-              >
-                Add Tier
-              </button>
-            )}
+        {/* Launch countdown for scheduled campaigns */}
+        {campaign.state === 3 && (
+          <div className="mb-6">
+            <LaunchCountdown startTime={campaign.startTime} onLaunch={loadCampaign} />
           </div>
+        )}
 
-          {campaign.tiers.length === 0 ? (
-            <div className="text-center py-8 text-gray-500">
-              <p>No funding tiers available yet.</p>
-              {isOwner() && campaign.state === 0 && (
-                <p className="mt-2">Add your first tier to start accepting contributions!</p>
-              )}
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {campaign.tiers.map((tier, index) => (
-                <div
-                  key={index}
-                  className={`border-2 rounded-lg p-4 transition-all ${!isOwner() ? 'cursor-pointer' : ''
-                    } ${selectedTier === index && !isOwner()
-                      ? 'border-blue-500 bg-blue-50'
-                      : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                  onClick={() => !isOwner() && setSelectedTier(index)}
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <h3 className="font-bold text-lg text-gray-900">{tier.name}</h3>
-                    {isOwner() && campaign.state === 0 && (
-                      <button
-                        onClick={() => handleRemoveTier(index)}
-                        disabled={removingTier === index || tier.backers > 0}
-                        className="text-red-600 hover:text-red-800 disabled:text-gray-400 disabled:cursor-not-allowed"
-                        title={tier.backers > 0 ? "Cannot remove tier with backers" : "Remove tier"}
-                      >
-                        {removingTier === index ? '...' : '×'}
-                      </button>
-                    )}
-                  </div>
-                  <p className="text-2xl font-bold text-blue-600 mb-2">{tier.amount} ETH</p>
-                  <p className="text-sm text-gray-600">{tier.backers} backers</p>
-                  {tier.backers > 0 && isOwner() && (
-                    <p className="text-xs text-orange-600 mt-1">Cannot remove (has backers)</p>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
+        {/* Milestones */}
+        {milestones.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Milestones</h2>
+            <CampaignMilestones
+              campaignAddress={address}
+              milestones={milestones}
+              currentMilestone={currentMilestone}
+              state={campaign.state}
+              raisedTotal={parseFloat(campaign.tieredTotal) + parseFloat(campaign.donationTotal)}
+              symbol={campaign.token.symbol}
+              account={account}
+              isOwner={!!isOwner()}
+              onUpdated={loadCampaign}
+            />
+          </div>
+        )}
+
+        {/* Tabs */}
+        <div className="flex space-x-2 mb-4">
+          {(['tiers', 'backers', 'timeline'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 rounded-lg font-medium capitalize ${activeTab === tab
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {/* Backers */}
+        {activeTab === 'backers' && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Backers</h2>
+            <CampaignBackers campaignAddress={address} tiers={campaign.tiers} symbol={campaign.token.symbol} />
+          </div>
+        )}
+
+        {/* Funding Timeline */}
+        {activeTab === 'timeline' && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Funding Timeline</h2>
+            <FundingTimeline campaignAddress={address} goal={campaign.goal} deadline={campaign.deadline} symbol={campaign.token.symbol} />
+          </div>
+        )}
 
-          {/* Funding Section */}
-          {!isOwner() && campaign.state === 0 && !campaign.paused && campaign.tiers.length > 0 && (
-            !account ? (
-              <div className="bg-white rounded-lg shadow-md p-6 text-center">
-                <h2 className="text-2xl font-bold text-gray-900 mb-4">Connect Wallet to Fund</h2>
+        {/* Funding Tiers */}
+        {activeTab === 'tiers' && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold text-gray-900">Funding Tiers</h2>
+              {isOwner() && isEditable() && (
                 <button
-                  onClick={connectWallet}
-                  className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                  onClick={() => setShowAddTier(true)}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors"
                 >
-                  Connect Wallet
+                  Add Tier
                 </button>
+              )}
+            </div>
+
+            {campaign.tiers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>No funding tiers available yet.</p>
+                {isOwner() && isEditable() && (
+                  <p className="mt-2">Add your first tier to start accepting contributions!</p>
+                )}
               </div>
             ) : (
-              <div className="flex flex-col md:flex-row gap-4 justify-center items-center pt-5">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {campaign.tiers.map((tier, index) => (
+                  <div
+                    key={index}
+                    className={`border-2 rounded-lg p-4 transition-all ${!isOwner() && !isSoldOut(tier) ? 'cursor-pointer' : ''
+                      } ${isSoldOut(tier) ? 'opacity-60' : ''
+                      } ${selectedTier === index && !isOwner()
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    onClick={() => !isOwner() && !isSoldOut(tier) && setSelectedTier(index)}
+                  >
+                    {editingTier === index ? (
+                      <div className="space-y-2 mb-2">
+                        <input
+                          type="text"
+                          value={editTierName}
+                          onChange={(e) => setEditTierName(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900"
+                          placeholder="Tier name"
+                        />
+                        <input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          value={editTierAmount}
+                          onChange={(e) => setEditTierAmount(e.target.value)}
+                          disabled={tier.backers > 0}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900 disabled:bg-gray-100"
+                          title={tier.backers > 0 ? "Backed tiers keep their amount" : undefined}
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setEditingTier(null)}
+                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={handleUpdateTier}
+                            disabled={savingTier || !editTierName.trim() || !editTierAmount}
+                            className="bg-blue-600 text-white px-3 py-1 text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                          >
+                            {savingTier ? 'Saving...' : 'Save'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between items-start mb-2">
+                          <h3 className="font-bold text-lg text-gray-900">{tier.name}</h3>
+                          {isOwner() && isEditable() && (
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => startEditTier(index)}
+                                className="text-sm text-blue-600 hover:text-blue-800"
+                                title={tier.backers > 0 ? "Rename tier" : "Edit tier"}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleRemoveTier(index)}
+                                disabled={removingTier === index || tier.backers > 0}
+                                className="text-red-600 hover:text-red-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                title={tier.backers > 0 ? "Cannot remove tier with backers" : "Remove tier"}
+                              >
+                                {removingTier === index ? '...' : '×'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                        <p className="text-2xl font-bold text-blue-600 mb-2">{tier.amount} {campaign.token.symbol}</p>
+                      </>
+                    )}
+                    {tier.description && (
+                      <p className="text-sm text-gray-700 mb-2">{tier.description}</p>
+                    )}
+                    <p className="text-sm text-gray-600">{tier.backers} backers</p>
+                    {tier.maxBackers > 0 && (
+                      isSoldOut(tier) ? (
+                        <p className="text-sm font-semibold text-red-600">Sold out</p>
+                      ) : (
+                        <p className="text-sm text-orange-600">{tier.maxBackers - tier.backers} of {tier.maxBackers} left</p>
+                      )
+                    )}
+                    {tier.deliveryDate > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">Estimated delivery: {formatDeadline(tier.deliveryDate)}</p>
+                    )}
+                    {tier.backers > 0 && isOwner() && (
+                      <p className="text-xs text-orange-600 mt-1">Cannot remove (has backers)</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Free-form contribution alongside the tiers */}
+            {!isOwner() && campaign.state === 0 && !campaign.paused && (
+              <div
+                className={`border-2 rounded-lg p-4 mt-4 cursor-pointer transition-all ${selectedTier === CUSTOM_AMOUNT || campaign.tiers.length === 0
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                onClick={() => setSelectedTier(CUSTOM_AMOUNT)}
+              >
+                <h3 className="font-bold text-lg text-gray-900 mb-2">Custom amount</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  Give any amount without picking a tier
+                  {parseFloat(campaign.minDonation) > 0 && ` (minimum ${campaign.minDonation} ${campaign.token.symbol})`}.
+                </p>
+                <input
+                  type="number"
+                  step="0.001"
+                  min={campaign.minDonation}
+                  value={customAmount}
+                  onChange={(e) => setCustomAmount(e.target.value)}
+                  onFocus={() => setSelectedTier(CUSTOM_AMOUNT)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={`Amount in ${campaign.token.symbol}`}
+                />
+              </div>
+            )}
+
+            {/* Minimum donation, owner only */}
+            {isOwner() && isEditable() && (
+              <div className="flex flex-col md:flex-row md:items-center gap-3 mt-4 text-sm text-gray-700">
+                <span>
+                  Minimum donation: {parseFloat(campaign.minDonation) > 0 ? `${campaign.minDonation} ${campaign.token.symbol}` : 'none'}
+                </span>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={minDonationInput}
+                  onChange={(e) => setMinDonationInput(e.target.value)}
+                  className="px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={`New minimum (${campaign.token.symbol})`}
+                />
                 <button
-                  onClick={handleFund}
-                  disabled={funding || !campaign.tiers[selectedTier]}
-                  className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  onClick={handleSetMinDonation}
+                  disabled={settingMinDonation}
+                  className="bg-blue-600 text-white px-3 py-1 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-400"
                 >
-                  {funding ? 'Funding...' : `Fund ${campaign.tiers[selectedTier]?.amount || '0'} ETH`}
+                  {settingMinDonation ? 'Saving...' : 'Set Minimum'}
                 </button>
               </div>
-            )
-          )}
-        </div>
+            )}
+
+            {/* Funding Section */}
+            {!isOwner() && campaign.state === 0 && !campaign.paused && (
+              !account ? (
+                <div className="bg-white rounded-lg shadow-md p-6 text-center">
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">Connect Wallet to Fund</h2>
+                  <button
+                    onClick={connectWallet}
+                    className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    Connect Wallet
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-col md:flex-row gap-4 justify-center items-center pt-5">
+                    {selectedTier === CUSTOM_AMOUNT || campaign.tiers.length === 0 ? (
+                      <button
+                        onClick={handleFund}
+                        disabled={funding || !(parseFloat(customAmount) > 0)}
+                        className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      >
+                        {funding ? 'Funding...' : `Contribute ${customAmount || '0'} ${campaign.token.symbol}`}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleFund}
+                        disabled={funding || !campaign.tiers[selectedTier]}
+                        className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      >
+                        {funding ? 'Funding...' : `Fund ${campaign.tiers[selectedTier]?.amount || '0'} ${campaign.token.symbol}`}
+                      </button>
+                    )}
+                  </div>
+                  {!isNativeToken(campaign.token.address) && (
+                    <p className="text-xs text-gray-500 text-center mt-2">
+                      Your wallet will ask you to approve {campaign.token.symbol} for this campaign before the contribution is sent.
+                    </p>
+                  )}
+                </>
+              )
+            )}
+          </div>
+        )}
+
+        <FeePreviewModal request={feePreview} onClose={() => setFeePreview(null)} />
 
         {/* Extend Deadline Modal */}
         {showExtendModal && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 font-space-grotesk">
             <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
               <h3 className="text-xl font-bold text-gray-900 mb-4">Extend Campaign Deadline</h3>
-              <p className="text-gray-600 mb-4">Add more days to your campaign deadline</p>
+              <p className="text-gray-600 mb-4">
+                Pick a new deadline after the current one ({new Date(campaign.deadline * 1000).toLocaleString()})
+              </p>
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Additional Days
+                    New Deadline
                   </label>
                   <input
-                    type="number"
-                    min="1"
-                    value={extendDays}
-                    onChange={(e) => setExtendDays(e.target.value)}
+                    type="datetime-local"
+                    min={toDateTimeLocal(campaign.deadline)}
+                    value={newDeadline}
+                    onChange={(e) => setNewDeadline(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900"
-                    placeholder="Enter number of days"
                   />
                 </div>
               </div>
@@ -518,7 +1013,7 @@ export default function CampaignPage() {
                 <button
                   onClick={() => {
                     setShowExtendModal(false);
-                    setExtendDays('');
+                    setNewDeadline('');
                   }}
                   className="px-4 py-2 text-gray-600 hover:text-gray-800"
                 >
@@ -526,7 +1021,7 @@ export default function CampaignPage() {
                 </button>
                 <button
                   onClick={handleExtendDeadline}
-                  disabled={extending || !extendDays || parseInt(extendDays) <= 0}
+                  disabled={extending || !newDeadline}
                   className="bg-purple-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
                   {extending ? 'Extending...' : 'Extend Deadline'}
@@ -568,7 +1063,7 @@ export default function CampaignPage() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Funding Goal (ETH)
+                    Funding Goal ({campaign.token.symbol})
                   </label>
                   <input
                     type="number"
@@ -625,7 +1120,7 @@ export default function CampaignPage() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Amount (ETH)
+                    Amount ({campaign.token.symbol})
                   </label>
                   <input
                     type="number"
@@ -637,13 +1132,51 @@ export default function CampaignPage() {
                     placeholder="0.1"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reward Description (optional)
+                  </label>
+                  <textarea
+                    value={newTierDescription}
+                    onChange={(e) => setNewTierDescription(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900"
+                    rows={3}
+                    placeholder="What backers of this tier receive"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Backer Limit
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={newTierMaxBackers}
+                      onChange={(e) => setNewTierMaxBackers(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900"
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Estimated Delivery
+                    </label>
+                    <input
+                      type="date"
+                      value={newTierDelivery}
+                      onChange={(e) => setNewTierDelivery(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-950 focus:outline-transparent text-gray-900"
+                    />
+                  </div>
+                </div>
               </div>
               <div className="flex justify-end space-x-3 mt-6">
                 <button
                   onClick={() => {
                     setShowAddTier(false);
-                    setNewTierName('');
-                    setNewTierAmount('');
+                    resetTierForm();
                   }}
                   className="px-4 py-2 text-gray-600 hover:text-gray-800"
                 >
@@ -661,12 +1194,80 @@ export default function CampaignPage() {
           </div>
         )}
 
+        {/* Pending withdrawal credited by withdraw, refund or an executed emergency withdrawal */}
+        {parseFloat(pendingWithdrawal) > 0 && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-bold text-green-800 mb-2">Funds Ready to Withdraw</h2>
+            <p className="text-green-700 mb-4">
+              {pendingWithdrawal} {campaign.token.symbol} has been credited to your account on this campaign. Withdraw it to your wallet.
+            </p>
+            <button
+              onClick={handleWithdrawPayments}
+              disabled={withdrawingPayments}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors disabled:bg-gray-400"
+            >
+              {withdrawingPayments ? 'Withdrawing...' : `Withdraw ${pendingWithdrawal} ${campaign.token.symbol}`}
+            </button>
+          </div>
+        )}
+
+        {/* Pending emergency withdrawal: backers can refund until it unlocks, then the owner can execute it */}
+        {emergencyAvailableAt > 0 && (
+          <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-bold text-yellow-800 mb-2">Emergency Withdrawal Requested</h2>
+            <p className="text-yellow-700">
+              The campaign owner has requested an emergency withdrawal of the remaining funds. It can be executed
+              from {new Date(emergencyAvailableAt * 1000).toLocaleString()}; until then backers can claim a refund.
+            </p>
+            {isOwner() && (
+              <div className="flex flex-wrap gap-3 mt-4">
+                <button
+                  onClick={handleExecuteEmergencyWithdraw}
+                  disabled={emergencyProcessing || Date.now() / 1000 < emergencyAvailableAt}
+                  className="bg-yellow-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-yellow-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {emergencyProcessing ? 'Processing...' : 'Execute Withdrawal'}
+                </button>
+                <button
+                  onClick={handleCancelEmergencyWithdraw}
+                  disabled={emergencyProcessing}
+                  className="bg-gray-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-gray-700 transition-colors text-sm disabled:bg-gray-400"
+                >
+                  Cancel Request
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Owners can start an emergency withdrawal while the campaign holds funds and has not failed */}
+        {isOwner() && emergencyAvailableAt === 0 && campaign.state !== 2 && parseFloat(campaign.balance) > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Emergency Withdrawal</h2>
+            <p className="text-gray-600 mb-4">
+              In a critical situation you can withdraw the remaining funds. Backers are notified and can claim
+              refunds during a waiting period before you can execute it, and you can cancel it until then.
+            </p>
+            <button
+              onClick={handleRequestEmergencyWithdraw}
+              disabled={emergencyProcessing}
+              className="bg-yellow-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-yellow-700 transition-colors text-sm disabled:bg-gray-400"
+            >
+              {emergencyProcessing ? 'Processing...' : 'Request Emergency Withdrawal'}
+            </button>
+          </div>
+        )}
+
         {/* Refund Section for Failed Campaigns */}
-        {campaign.state === 2 && account && !isOwner() && (
+        {canClaimRefund && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6">
-            <h2 className="text-xl font-bold text-red-800 mb-2">Campaign Failed</h2>
+            <h2 className="text-xl font-bold text-red-800 mb-2">
+              {emergencyAvailableAt > 0 && campaign.state !== 2 ? 'Refunds Open' : 'Campaign Failed'}
+            </h2>
             <p className="text-red-700 mb-4">
-              This campaign did not reach its funding goal. If you contributed, you can claim a refund.
+              {emergencyAvailableAt > 0 && campaign.state !== 2
+                ? 'You can claim your contribution back before the emergency withdrawal is executed.'
+                : 'This campaign did not reach its funding goal. If you contributed, you can claim a refund.'}
             </p>
             <button
               onClick={handleRefund}
@@ -680,7 +1281,7 @@ export default function CampaignPage() {
         {/* Campaign Status Messages */}
         {!isOwner() && (
           <>
-            {campaign.state !== 0 && (
+            {campaign.state !== 0 && campaign.state !== 3 && (
               <div className={`rounded-lg p-6 text-center ${campaign.state === 1 ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
                 }`}>
                 <h2 className={`text-xl font-bold mb-2 ${campaign.state === 1 ? 'text-green-800' : 'text-red-800'
@@ -709,7 +1310,7 @@ export default function CampaignPage() {
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 text-center">
                 <h2 className="text-xl font-bold text-yellow-800 mb-2">No Tiers Available</h2>
                 <p className="text-yellow-700">
-                  The campaign owner hasn&apos;t set up any funding tiers yet.
+                  The campaign owner hasn&apos;t set up any funding tiers yet, but you can still contribute a custom amount.
                 </p>
               </div>
             )}
@@ -733,7 +1334,7 @@ export default function CampaignPage() {
                     <li>• The campaign will be removed from the platform</li>
                     <li>• This action is permanent and irreversible</li>
                     {campaign && parseFloat(campaign.balance) > 0 && (
-                      <li className="font-semibold">• Current balance ({campaign.balance} ETH) will be available for refunds</li>
+                      <li className="font-semibold">• Current balance ({campaign.balance} {campaign.token.symbol}) will be available for refunds</li>
                     )}
                   </ul>
                 </div>
@@ -1,10 +1,10 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useState, useCallback } from "react";
-import { web3Service } from "@/lib/web3";
+import { useEffect, useState, useCallback, useRef } from "react";
+import { web3Service, type Campaign } from "@/lib/web3";
 import { CampaignState } from "@/lib/contracts";
-import { useWeb3 } from "@/contexts/Web3Context";
+import { ACTIVE_NETWORK, CAMPAIGN_NETWORKS, getNetwork } from "@/lib/networks";
 
 
 
@@ -13,66 +13,118 @@ interface CampaignDetails {
   description: string;
   goal: string;
   deadline: number;
+  startTime: number;
   owner: string;
   paused: boolean;
   state: number;
   balance: string;
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
   tiers: Array<{
     name: string;
     amount: string;
     backers: number;
+    id: number;
+    description: string;
+    maxBackers: number;
+    deliveryDate: number;
   }>;
 }
 
 export default function CampaignsPage() {
-  const { 
-    campaigns, 
-    campaignsLoading, 
-    campaignsError, 
-    lastUpdate, 
-    refreshCampaigns 
-  } = useWeb3();
-  
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [campaignDetails, setCampaignDetails] = useState<Record<string, CampaignDetails>>({});
-  const [detailsLoading, setDetailsLoading] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'active' | 'successful' | 'failed'>('all');
+  const [campaignsLoading, setCampaignsLoading] = useState(false);
+  const [campaignsError, setCampaignsError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [filter, setFilter] = useState<'all' | 'upcoming' | 'active' | 'successful' | 'failed'>('all');
 
-  const loadCampaignDetails = useCallback(async () => {
-    if (campaigns.length === 0) return;
-    
-    setDetailsLoading(true);
+  // The cursor survives re-renders; refreshing swaps in a fresh one
+  const cursorRef = useRef<AsyncGenerator<Campaign[]> | null>(null);
+  const loadingRef = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const loadNextPage = useCallback(async () => {
+    if (loadingRef.current || !cursorRef.current) return;
+
+    const cursor = cursorRef.current;
+    loadingRef.current = true;
+    setCampaignsLoading(true);
     try {
-      // Ensure we're on the correct network
-      await web3Service.switchToCorrectNetwork();
-      
-      // Load details for each campaign
-      const details: Record<string, CampaignDetails> = {};
-      for (const campaign of campaigns) {
-        try {
-          const detail = await web3Service.getCampaignDetails(campaign.campaignAddress);
-          details[campaign.campaignAddress] = detail;
-        } catch (error) {
-          console.error(`Failed to load details for ${campaign.campaignAddress}:`, error);
-        }
+      const { value: page, done } = await cursor.next();
+      // A refresh started while this page was in flight
+      if (cursor !== cursorRef.current) return;
+
+      if (done || !page) {
+        setHasMore(false);
+        return;
       }
-      setCampaignDetails(details);
+
+      setCampaigns(prev => [...prev, ...page]);
+      setLastUpdate(new Date());
+
+      // Details are read over each campaign's own chain, so no wallet switch is needed here
+      const details = await web3Service.getCampaignDetailsBatch(
+        page.map(campaign => campaign.campaignAddress)
+      );
+      if (cursor !== cursorRef.current) return;
+      setCampaignDetails(prev => ({ ...prev, ...details }));
     } catch (error) {
-      console.error('Failed to load campaign details:', error);
+      console.error('Failed to load campaigns:', error);
+      setCampaignsError(
+        error instanceof Error ? error.message : `Failed to load campaigns from ${ACTIVE_NETWORK.name}`
+      );
+      setHasMore(false);
     } finally {
-      setDetailsLoading(false);
+      if (cursor === cursorRef.current) {
+        loadingRef.current = false;
+        setCampaignsLoading(false);
+      }
     }
-  }, [campaigns]);
+  }, []);
+
+  const refreshCampaigns = useCallback(() => {
+    cursorRef.current = web3Service.iterateCampaigns();
+    loadingRef.current = false;
+    setCampaigns([]);
+    setCampaignDetails({});
+    setCampaignsError(null);
+    setHasMore(true);
+    loadNextPage();
+  }, [loadNextPage]);
 
-  // Load campaign details when campaigns change
   useEffect(() => {
-    loadCampaignDetails();
-  }, [campaigns, loadCampaignDetails]);
+    refreshCampaigns();
+  }, [refreshCampaigns]);
+
+  // Infinite scroll: fetch the next page whenever the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || campaignsLoading) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadNextPage, campaignsLoading]);
 
   const getStateText = (state: number) => {
     switch (state) {
       case CampaignState.Active: return "Active";
       case CampaignState.Successful: return "Successful";
       case CampaignState.Failed: return "Failed";
+      case CampaignState.Upcoming: return "Upcoming";
       default: return "Unknown";
     }
   };
@@ -82,6 +134,7 @@ export default function CampaignsPage() {
       case CampaignState.Active: return "text-green-600 bg-green-100";
       case CampaignState.Successful: return "text-blue-600 bg-blue-100";
       case CampaignState.Failed: return "text-red-600 bg-red-100";
+      case CampaignState.Upcoming: return "text-amber-600 bg-amber-100";
       default: return "text-gray-600 bg-gray-100";
     }
   };
@@ -105,6 +158,7 @@ export default function CampaignsPage() {
     if (!details) return false;
     
     switch (filter) {
+      case 'upcoming': return details.state === CampaignState.Upcoming;
       case 'active': return details.state === CampaignState.Active;
       case 'successful': return details.state === CampaignState.Successful;
       case 'failed': return details.state === CampaignState.Failed;
@@ -129,7 +183,7 @@ export default function CampaignsPage() {
             className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-semibold"
             disabled={campaignsLoading}
           >
-            {campaignsLoading ? 'Refreshing...' : 'Refresh'}
+            {campaignsLoading && campaigns.length === 0 ? 'Refreshing...' : 'Refresh'}
           </button>
           <Link
             href="/create"
@@ -148,7 +202,7 @@ export default function CampaignsPage() {
 
       {/* Filter Buttons */}
       <div className="flex space-x-2 mb-8">
-        {(['all', 'active', 'successful', 'failed'] as const).map((filterOption) => (
+        {(['all', 'upcoming', 'active', 'successful', 'failed'] as const).map((filterOption) => (
           <button
             key={filterOption}
             onClick={() => setFilter(filterOption)}
@@ -163,7 +217,7 @@ export default function CampaignsPage() {
         ))}
       </div>
 
-      {(campaignsLoading || detailsLoading) ? (
+      {(campaignsLoading && campaigns.length === 0) ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {[...Array(9)].map((_, i) => (
             <div key={i} className="bg-white rounded-lg shadow-md p-6 animate-pulse">
@@ -174,7 +228,7 @@ export default function CampaignsPage() {
             </div>
           ))}
         </div>
-      ) : filteredCampaigns.length === 0 ? (
+      ) : filteredCampaigns.length === 0 && !hasMore ? (
         <div className="text-center py-12">
           <p className="text-gray-600 mb-4">
             {filter === 'all' ? 'No campaigns found' : `No ${filter} campaigns found`}
@@ -195,7 +249,7 @@ export default function CampaignsPage() {
             const progress = (parseFloat(details.balance) / parseFloat(details.goal)) * 100;
 
             return (
-              <div key={campaign.campaignAddress} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
+              <div key={`${campaign.chainId}-${campaign.campaignAddress}`} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
                 <div className="flex justify-between items-start mb-4">
                   <h3 className="text-lg font-semibold text-gray-900 truncate">
                     {details.name}
@@ -225,24 +279,34 @@ export default function CampaignsPage() {
                 <div className="space-y-2 text-sm text-gray-600 mb-4">
                   <div className="flex justify-between">
                     <span>Raised:</span>
-                    <span className="font-medium">{details.balance} ETH</span>
+                    <span className="font-medium">{details.balance} {details.token.symbol}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Goal:</span>
-                    <span className="font-medium">{details.goal} ETH</span>
+                    <span className="font-medium">{details.goal} {details.token.symbol}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Deadline:</span>
-                    <span className="font-medium">{formatDeadline(details.deadline)}</span>
+                    <span>{details.state === CampaignState.Upcoming ? 'Launches:' : 'Deadline:'}</span>
+                    <span className="font-medium">
+                      {details.state === CampaignState.Upcoming
+                        ? new Date(details.startTime * 1000).toLocaleString()
+                        : formatDeadline(details.deadline)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span>Backers:</span>
                     <span className="font-medium">{details.tiers.reduce((sum, tier) => sum + tier.backers, 0)}</span>
                   </div>
+                  {CAMPAIGN_NETWORKS.length > 1 && (
+                    <div className="flex justify-between">
+                      <span>Network:</span>
+                      <span className="font-medium">{getNetwork(campaign.chainId)?.name ?? campaign.chainId}</span>
+                    </div>
+                  )}
                 </div>
                 
                 <Link
-                  href={`/campaign/${campaign.campaignAddress}`}
+                  href={`/campaign/${campaign.campaignAddress}?chainId=${campaign.chainId}`}
                   className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white py-2 rounded font-medium"
                 >
                   View Details
@@ -252,6 +316,13 @@ export default function CampaignsPage() {
           })}
         </div>
       )}
+
+      {/* Sentinel watched by the IntersectionObserver to pull in the next page */}
+      {hasMore && (
+        <div ref={sentinelRef} className="py-8 text-center text-sm text-gray-500">
+          {campaignsLoading && campaigns.length > 0 ? 'Loading more campaigns...' : ''}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,22 +1,96 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { web3Service } from "@/lib/web3";
+import { web3Service, type NewCampaign } from "@/lib/web3";
 import { useWeb3 } from "@/contexts/Web3Context";
+import { ACTIVE_NETWORK } from "@/lib/networks";
+import { MIN_CAMPAIGN_DURATION, MAX_CAMPAIGN_DURATION } from "@/lib/contracts";
+import { FeePreset } from "@/lib/fees";
+import FeePreviewModal, { FeePreviewRequest } from "@/components/FeePreviewModal";
+
+interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// datetime-local inputs take local time without a zone suffix
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const describeDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  if (days === 0) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return hours === 0 ? `${days} day${days === 1 ? '' : 's'}` : `${days} days ${hours} hours`;
+};
 
 export default function CreateCampaignPage() {
   const router = useRouter();
   const { isConnected } = useWeb3();
   const [loading, setLoading] = useState(false);
+  const [feePreview, setFeePreview] = useState<FeePreviewRequest | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     goal: "",
-    duration: 30
+    // datetime-local value; filled with a 30 day default once mounted
+    deadline: ""
   });
+  // Optional payout schedule; percentages are kept as strings while editing
+  const [milestones, setMilestones] = useState<Array<{ title: string; percentage: string }>>([]);
+  // Campaigns raise the native coin unless an ERC-20 is picked here
+  const [currency, setCurrency] = useState<'native' | 'token'>('native');
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [token, setToken] = useState<TokenInfo | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [lookingUpToken, setLookingUpToken] = useState(false);
+  // Empty launches as soon as the campaign is created; otherwise a datetime-local value
+  const [launchAt, setLaunchAt] = useState("");
+  // Close as soon as the goal is reached, or keep raising until the deadline up to an optional hard cap
+  const [fundUntilDeadline, setFundUntilDeadline] = useState(false);
+  const [hardCap, setHardCap] = useState("");
+
+  // Set on the client only, so the server-rendered form does not depend on its clock or time zone
+  useEffect(() => {
+    setFormData(prev => prev.deadline ? prev : {
+      ...prev,
+      deadline: toDateTimeLocal(Math.floor(Date.now() / 1000) + 30 * 86400)
+    });
+  }, []);
+
+  const launchTime = launchAt ? fromDateTimeLocal(launchAt) : Math.floor(Date.now() / 1000);
+  const fundingWindow = formData.deadline ? fromDateTimeLocal(formData.deadline) - launchTime : 0;
+
+  const currencySymbol = currency === 'token' ? token?.symbol ?? 'tokens' : ACTIVE_NETWORK.nativeCurrency.symbol;
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const milestoneTotal = milestones.reduce((sum, milestone) => sum + (parseInt(milestone.percentage) || 0), 0);
+
+  const updateMilestone = (index: number, field: 'title' | 'percentage', value: string) => {
+    setMilestones(prev => prev.map((milestone, i) => i === index ? { ...milestone, [field]: value } : milestone));
+  };
+
+  const lookUpToken = async () => {
+    setToken(null);
+    setTokenError(null);
+    if (!tokenAddress.trim()) return;
+
+    try {
+      setLookingUpToken(true);
+      setToken(await web3Service.getTokenInfo(tokenAddress.trim()));
+    } catch (error: unknown) {
+      setTokenError(error instanceof Error ? error.message : 'Could not read token');
+    } finally {
+      setLookingUpToken(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!isConnected) {
@@ -34,18 +108,72 @@ export default function CreateCampaignPage() {
       return;
     }
 
-    if (formData.duration < 1) {
-      alert("Duration must be at least 1 day");
+    if (!formData.deadline) {
+      alert("Please pick a deadline");
+      return;
+    }
+
+    if (fundUntilDeadline && hardCap && parseFloat(hardCap) < parseFloat(formData.goal)) {
+      alert("Hard cap must be at least the goal");
+      return;
+    }
+
+    if (milestones.length > 0 && milestoneTotal !== 100) {
+      alert("Milestone percentages must add up to 100%");
+      return;
+    }
+
+    if (currency === 'token' && !token) {
+      alert("Enter a valid ERC-20 token address");
+      return;
+    }
+
+    const startTime = launchAt ? fromDateTimeLocal(launchAt) : 0;
+    if (startTime !== 0 && startTime <= Date.now() / 1000) {
+      alert("Launch time must be in the future");
+      return;
+    }
+
+    if (fundingWindow < MIN_CAMPAIGN_DURATION) {
+      alert("Deadline must be at least an hour after launch");
+      return;
+    }
+
+    if (fundingWindow > MAX_CAMPAIGN_DURATION) {
+      alert("Deadline must be within a year of launch");
       return;
     }
 
+    const campaign: NewCampaign = {
+      name: formData.name,
+      description: formData.description,
+      goal: formData.goal,
+      deadline: fromDateTimeLocal(formData.deadline),
+      milestones: milestones.map(milestone => ({ title: milestone.title, percentage: parseInt(milestone.percentage) || 0 })),
+      tokenAddress: currency === 'token' && token ? token.address : undefined,
+      startTime,
+      fundingPolicy: { fundUntilDeadline, hardCap: fundUntilDeadline ? hardCap : undefined }
+    };
+    setFeePreview({
+      action: { type: 'createCampaign', campaign },
+      title: `Create "${formData.name}"`,
+      onConfirm: (preset) => createCampaign(campaign, preset)
+    });
+  };
+
+  const createCampaign = async (campaign: NewCampaign, feePreset: FeePreset) => {
     setLoading(true);
     try {
       const tx = await web3Service.createCampaign(
-        formData.name,
-        formData.description,
-        formData.goal,
-        formData.duration
+        campaign.name,
+        campaign.description,
+        campaign.goal,
+        campaign.deadline,
+        campaign.milestones,
+        campaign.tokenAddress,
+        campaign.startTime,
+        campaign.fundingPolicy,
+        feePreset
       );
       
       console.log("Campaign created:", tx);
@@ -53,7 +181,7 @@ export default function CreateCampaignPage() {
       router.push("/campaigns");
     } catch (error: unknown) {
       console.error("Failed to create campaign:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = web3Service.decodeError(error).message;
       alert(`Failed to create campaign: ${errorMessage}`);
     } finally {
       setLoading(false);
@@ -64,7 +192,7 @@ export default function CreateCampaignPage() {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'duration' ? parseInt(value) || 0 : value
+      [name]: value
     }));
   };
 
@@ -119,9 +247,56 @@ export default function CreateCampaignPage() {
             />
           </div>
 
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Currency
+            </label>
+            <div className="flex gap-4 mb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="currency"
+                  checked={currency === 'native'}
+                  onChange={() => setCurrency('native')}
+                />
+                {ACTIVE_NETWORK.nativeCurrency.symbol}
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="currency"
+                  checked={currency === 'token'}
+                  onChange={() => setCurrency('token')}
+                />
+                ERC-20 token
+              </label>
+            </div>
+            {currency === 'token' && (
+              <>
+                <input
+                  type="text"
+                  value={tokenAddress}
+                  onChange={(e) => setTokenAddress(e.target.value)}
+                  onBlur={lookUpToken}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                  placeholder="Token contract address (0x...)"
+                />
+                <p className={`text-sm mt-1 ${tokenError ? 'text-red-600' : 'text-gray-500'}`}>
+                  {lookingUpToken
+                    ? 'Looking up token...'
+                    : tokenError
+                      ? tokenError
+                      : token
+                        ? `${token.symbol} · ${token.decimals} decimals`
+                        : 'Backers approve this token to the campaign before contributing. Fee-on-transfer tokens are not supported.'}
+                </p>
+              </>
+            )}
+          </div>
+
           <div className="mb-6">
             <label htmlFor="goal" className="block text-sm font-medium text-gray-700 mb-2">
-              Funding Goal (ETH) *
+              Funding Goal ({currencySymbol}) *
             </label>
             <input
               type="number"
@@ -137,25 +312,148 @@ export default function CreateCampaignPage() {
             />
           </div>
 
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              When the goal is reached
+            </label>
+            <div className="flex flex-col gap-2 mb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="fundingPolicy"
+                  checked={!fundUntilDeadline}
+                  onChange={() => setFundUntilDeadline(false)}
+                />
+                Close the campaign
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="fundingPolicy"
+                  checked={fundUntilDeadline}
+                  onChange={() => setFundUntilDeadline(true)}
+                />
+                Keep funding until the deadline
+              </label>
+            </div>
+            {fundUntilDeadline && (
+              <>
+                <input
+                  type="number"
+                  value={hardCap}
+                  onChange={(e) => setHardCap(e.target.value)}
+                  step="0.001"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={`Hard cap in ${currencySymbol} (optional)`}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Funding stops early once the hard cap is reached. You can add stretch goals from the campaign page.
+                </p>
+              </>
+            )}
+          </div>
+
           <div className="mb-8">
-            <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-2">
-              Campaign Duration (days)
+            <label htmlFor="launchAt" className="block text-sm font-medium text-gray-700 mb-2">
+              Launch Time (optional)
             </label>
             <input
-              type="number"
-              id="duration"
-              name="duration"
-              value={formData.duration}
-              onChange={handleChange}
-              min="1"
+              type="datetime-local"
+              id="launchAt"
+              value={launchAt}
+              onChange={(e) => setLaunchAt(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="30"
             />
             <p className="text-sm text-gray-500 mt-1">
-              Campaign will run for {formData.duration} days from creation
+              {launchAt
+                ? 'The campaign shows as Upcoming until then, so you can set up tiers before backers can fund it'
+                : 'Leave empty to open funding right away'}
             </p>
           </div>
 
+          <div className="mb-8">
+            <label htmlFor="deadline" className="block text-sm font-medium text-gray-700 mb-2">
+              Deadline *
+            </label>
+            <input
+              type="datetime-local"
+              id="deadline"
+              name="deadline"
+              value={formData.deadline}
+              onChange={handleChange}
+              min={toDateTimeLocal(launchTime + MIN_CAMPAIGN_DURATION)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+            <p className={`text-sm mt-1 ${formData.deadline && (fundingWindow < MIN_CAMPAIGN_DURATION || fundingWindow > MAX_CAMPAIGN_DURATION) ? 'text-red-600' : 'text-gray-500'}`}>
+              {!formData.deadline
+                ? 'Funding closes at this time'
+                : fundingWindow < MIN_CAMPAIGN_DURATION
+                  ? 'The deadline must be at least an hour after launch'
+                  : fundingWindow > MAX_CAMPAIGN_DURATION
+                    ? 'The deadline must be within a year of launch'
+                    : `Funding stays open for ${describeDuration(fundingWindow)} from ${launchAt ? 'launch' : 'creation'}`}
+            </p>
+          </div>
+
+          <div className="mb-8">
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Milestones (optional)
+              </label>
+              <button
+                type="button"
+                onClick={() => setMilestones(prev => [...prev, { title: "", percentage: "" }])}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                + Add Milestone
+              </button>
+            </div>
+            {milestones.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Without milestones you can withdraw everything once the goal is reached.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {milestones.map((milestone, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={milestone.title}
+                      onChange={(e) => updateMilestone(index, 'title', e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder={`Milestone ${index + 1}`}
+                      required
+                    />
+                    <input
+                      type="number"
+                      value={milestone.percentage}
+                      onChange={(e) => updateMilestone(index, 'percentage', e.target.value)}
+                      min="1"
+                      max="100"
+                      step="1"
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="%"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setMilestones(prev => prev.filter((_, i) => i !== index))}
+                      className="px-3 text-red-600 hover:text-red-800"
+                      title="Remove milestone"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <p className={`text-sm mt-1 ${milestoneTotal === 100 ? 'text-gray-500' : 'text-red-600'}`}>
+                  {milestoneTotal}% of 100% allocated. Backers approve each release by contribution-weighted vote.
+                </p>
+              </div>
+            )}
+          </div>
+
           <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
             <h3 className="text-sm font-medium text-yellow-800 mb-2">Important Notes:</h3>
             <ul className="text-sm text-yellow-700 space-y-1">
@@ -175,6 +473,8 @@ export default function CreateCampaignPage() {
           </button>
         </form>
       </div>
+
+      <FeePreviewModal request={feePreview} onClose={() => setFeePreview(null)} />
     </div>
   );
 }
\ No newline at end of file
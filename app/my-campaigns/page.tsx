@@ -2,30 +2,36 @@
 
 import Link from "next/link";
 import { useEffect, useState, useCallback } from "react";
-import { web3Service } from "@/lib/web3";
+import { web3Service, type Campaign } from "@/lib/web3";
 import { useWeb3 } from "@/contexts/Web3Context";
 import { CampaignState } from "@/lib/contracts";
 
-interface Campaign {
-  campaignAddress: string;
-  owner: string;
-  name: string;
-  creationTime: number;
-}
-
 interface CampaignDetails {
   name: string;
   description: string;
   goal: string;
   deadline: number;
+  startTime: number;
   owner: string;
   paused: boolean;
   state: number;
   balance: string;
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
   tiers: Array<{
     name: string;
     amount: string;
     backers: number;
+    id: number;
+    description: string;
+    maxBackers: number;
+    deliveryDate: number;
   }>;
 }
 
@@ -39,19 +45,13 @@ export default function MyCampaignsPage() {
     if (!account) return;
     
     try {
-      const userCampaigns = await web3Service.getUserCampaigns(account);
+      const userCampaigns = await web3Service.getUserCampaignsFromAllChains(account);
       setCampaigns(userCampaigns);
       
-      // Load details for each campaign
-      const details: Record<string, CampaignDetails> = {};
-      for (const campaign of userCampaigns) {
-        try {
-          const detail = await web3Service.getCampaignDetails(campaign.campaignAddress);
-          details[campaign.campaignAddress] = detail;
-        } catch (error) {
-          console.error(`Failed to load details for ${campaign.campaignAddress}:`, error);
-        }
-      }
+      // Load details for all campaigns in one batch
+      const details = await web3Service.getCampaignDetailsBatch(
+        userCampaigns.map(campaign => campaign.campaignAddress)
+      );
       setCampaignDetails(details);
     } catch (error) {
       console.error('Failed to load user campaigns:', error);
@@ -75,6 +75,7 @@ export default function MyCampaignsPage() {
       case CampaignState.Active: return "Active";
       case CampaignState.Successful: return "Successful";
       case CampaignState.Failed: return "Failed";
+      case CampaignState.Upcoming: return "Upcoming";
       default: return "Unknown";
     }
   };
@@ -84,6 +85,7 @@ export default function MyCampaignsPage() {
       case CampaignState.Active: return "text-green-600 bg-green-100";
       case CampaignState.Successful: return "text-blue-600 bg-blue-100";
       case CampaignState.Failed: return "text-red-600 bg-red-100";
+      case CampaignState.Upcoming: return "text-amber-600 bg-amber-100";
       default: return "text-gray-600 bg-gray-100";
     }
   };
@@ -161,7 +163,7 @@ export default function MyCampaignsPage() {
             const progress = (parseFloat(details.balance) / parseFloat(details.goal)) * 100;
 
             return (
-              <div key={campaign.campaignAddress} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
+              <div key={`${campaign.chainId}-${campaign.campaignAddress}`} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
                 <div className="flex justify-between items-start mb-4">
                   <h3 className="text-lg font-semibold text-gray-900 truncate">
                     {details.name}
@@ -191,15 +193,19 @@ export default function MyCampaignsPage() {
                 <div className="space-y-2 text-sm text-gray-600 mb-4">
                   <div className="flex justify-between">
                     <span>Raised:</span>
-                    <span className="font-medium">{details.balance} ETH</span>
+                    <span className="font-medium">{details.balance} {details.token.symbol}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Goal:</span>
-                    <span className="font-medium">{details.goal} ETH</span>
+                    <span className="font-medium">{details.goal} {details.token.symbol}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Deadline:</span>
-                    <span className="font-medium">{formatDeadline(details.deadline)}</span>
+                    <span>{details.state === CampaignState.Upcoming ? 'Launches:' : 'Deadline:'}</span>
+                    <span className="font-medium">
+                      {details.state === CampaignState.Upcoming
+                        ? new Date(details.startTime * 1000).toLocaleString()
+                        : formatDeadline(details.deadline)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span>Backers:</span>
@@ -215,7 +221,7 @@ export default function MyCampaignsPage() {
                 
                 <div className="space-y-2">
                   <Link
-                    href={`/campaign/${campaign.campaignAddress}`}
+                    href={`/campaign/${campaign.campaignAddress}?chainId=${campaign.chainId}`}
                     className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white py-2 rounded font-medium"
                   >
                     Manage Campaign
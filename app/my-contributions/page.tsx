@@ -0,0 +1,308 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, useCallback } from "react";
+import { web3Service, type Campaign } from "@/lib/web3";
+import { useWeb3 } from "@/contexts/Web3Context";
+import { CampaignState } from "@/lib/contracts";
+
+interface CampaignDetails {
+  name: string;
+  description: string;
+  goal: string;
+  deadline: number;
+  startTime: number;
+  owner: string;
+  paused: boolean;
+  state: number;
+  balance: string;
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  fundUntilDeadline: boolean;
+  hardCap: string;
+  stretchGoals: string[];
+  tiers: Array<{
+    name: string;
+    amount: string;
+    backers: number;
+    id: number;
+    description: string;
+    maxBackers: number;
+    deliveryDate: number;
+  }>;
+}
+
+interface Contribution {
+  campaign: Campaign;
+  details: CampaignDetails;
+  amount: string;
+  fundedTiers: number[];
+  canRefund: boolean;
+  pendingWithdrawal: string;
+}
+
+export default function MyContributionsPage() {
+  const { account, isConnected } = useWeb3();
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refunding, setRefunding] = useState<string | null>(null);
+  const [withdrawing, setWithdrawing] = useState<string | null>(null);
+
+  const loadContributions = useCallback(async () => {
+    if (!account) return;
+
+    try {
+      setError(null);
+      const backedCampaigns = await web3Service.getBackedCampaigns(account);
+      const details = await web3Service.getCampaignDetailsBatch(
+        backedCampaigns.map(campaign => campaign.campaignAddress)
+      );
+
+      const results = await Promise.all(backedCampaigns.map(async (campaign) => {
+        const campaignDetails = details[campaign.campaignAddress];
+        if (!campaignDetails) return null;
+
+        const [amount, fundedFlags, canRefund, pendingWithdrawal] = await Promise.all([
+          web3Service.getBackerContribution(campaign.campaignAddress, account),
+          Promise.all(campaignDetails.tiers.map((_, index) =>
+            web3Service.hasFundedTier(campaign.campaignAddress, account, index)
+          )),
+          web3Service.canRefund(campaign.campaignAddress),
+          web3Service.getPendingWithdrawal(campaign.campaignAddress, account)
+        ]);
+
+        return {
+          campaign,
+          details: campaignDetails,
+          amount,
+          fundedTiers: fundedFlags.flatMap((funded, index) => funded ? [index] : []),
+          canRefund,
+          pendingWithdrawal
+        };
+      }));
+
+      // Campaigns drop off the dashboard once the refund has been withdrawn
+      setContributions(results.filter((contribution): contribution is Contribution =>
+        !!contribution && (parseFloat(contribution.amount) > 0 || parseFloat(contribution.pendingWithdrawal) > 0)
+      ));
+    } catch (err) {
+      console.error('Failed to load contributions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load contributions');
+    } finally {
+      setLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (isConnected && account) {
+      loadContributions();
+    } else {
+      setLoading(false);
+      setContributions([]);
+    }
+  }, [isConnected, account, loadContributions]);
+
+  const handleRefund = async (campaignAddress: string) => {
+    try {
+      setRefunding(campaignAddress);
+      setError(null);
+      await web3Service.refund(campaignAddress);
+      await loadContributions();
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to get refund').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setRefunding(null);
+    }
+  };
+
+  const handleWithdrawPayments = async (campaignAddress: string) => {
+    try {
+      setWithdrawing(campaignAddress);
+      setError(null);
+      await web3Service.withdrawPayments(campaignAddress);
+      await loadContributions();
+    } catch (err: unknown) {
+      const errorMessage = web3Service.decodeError(err, 'Failed to withdraw refund').message;
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setWithdrawing(null);
+    }
+  };
+
+  const getStateText = (state: number) => {
+    switch (state) {
+      case CampaignState.Active: return "Active";
+      case CampaignState.Successful: return "Successful";
+      case CampaignState.Failed: return "Failed";
+      case CampaignState.Upcoming: return "Upcoming";
+      default: return "Unknown";
+    }
+  };
+
+  const getStateColor = (state: number) => {
+    switch (state) {
+      case CampaignState.Active: return "text-green-600 bg-green-100";
+      case CampaignState.Successful: return "text-blue-600 bg-blue-100";
+      case CampaignState.Failed: return "text-red-600 bg-red-100";
+      case CampaignState.Upcoming: return "text-amber-600 bg-amber-100";
+      default: return "text-gray-600 bg-gray-100";
+    }
+  };
+
+  // Campaigns may raise different currencies, so totals are kept per symbol
+  const totalsBySymbol = contributions.reduce<Record<string, number>>((totals, contribution) => {
+    const { symbol } = contribution.details.token;
+    totals[symbol] = (totals[symbol] ?? 0) + parseFloat(contribution.amount);
+    return totals;
+  }, {});
+  const totalContributed = Object.entries(totalsBySymbol)
+    .map(([symbol, total]) => `${parseFloat(total.toFixed(6))} ${symbol}`)
+    .join(' + ');
+
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Connect Wallet</h1>
+          <p className="text-gray-600 mb-6">
+            Please connect your wallet to view your contributions
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Contributions</h1>
+          {!loading && contributions.length > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              {totalContributed} across {contributions.length} campaigns
+            </p>
+          )}
+        </div>
+        <Link
+          href="/campaigns"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold"
+        >
+          Browse Campaigns
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white rounded-lg shadow-md p-6 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded mb-4"></div>
+              <div className="h-3 bg-gray-200 rounded mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded mb-4"></div>
+              <div className="h-2 bg-gray-200 rounded"></div>
+            </div>
+          ))}
+        </div>
+      ) : contributions.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="max-w-md mx-auto">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">No Contributions Yet</h2>
+            <p className="text-gray-600 mb-6">
+              You haven&apos;t backed any campaigns yet. Find one you believe in and fund a tier!
+            </p>
+            <Link
+              href="/campaigns"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold"
+            >
+              Explore Campaigns
+            </Link>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {contributions.map(({ campaign, details, amount, fundedTiers, canRefund, pendingWithdrawal }) => (
+            <div key={`${campaign.chainId}-${campaign.campaignAddress}`} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 truncate">
+                  {details.name}
+                </h3>
+                <span className={`text-xs font-medium px-2 py-1 rounded-full ${getStateColor(details.state)}`}>
+                  {getStateText(details.state)}
+                </span>
+              </div>
+
+              <div className="space-y-2 text-sm text-gray-600 mb-4">
+                <div className="flex justify-between">
+                  <span>Your contribution:</span>
+                  <span className="font-medium">{amount} {details.token.symbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Raised:</span>
+                  <span className="font-medium">{details.balance} / {details.goal} {details.token.symbol}</span>
+                </div>
+                <div>
+                  <span>Tiers funded:</span>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {fundedTiers.length === 0 ? (
+                      <span className="text-gray-400">None of the current tiers</span>
+                    ) : (
+                      fundedTiers.map(index => (
+                        <span key={index} className="text-xs font-medium px-2 py-1 rounded-full bg-blue-100 text-blue-700">
+                          {details.tiers[index].name} ({details.tiers[index].amount} {details.token.symbol})
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Link
+                  href={`/campaign/${campaign.campaignAddress}?chainId=${campaign.chainId}`}
+                  className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white py-2 rounded font-medium"
+                >
+                  View Campaign
+                </Link>
+
+                {canRefund && (
+                  <button
+                    onClick={() => handleRefund(campaign.campaignAddress)}
+                    disabled={refunding === campaign.campaignAddress}
+                    className="w-full bg-red-600 hover:bg-red-700 text-white py-2 rounded font-medium disabled:bg-gray-400"
+                  >
+                    {refunding === campaign.campaignAddress ? 'Refunding...' : `Refund ${amount} ${details.token.symbol}`}
+                  </button>
+                )}
+
+                {parseFloat(pendingWithdrawal) > 0 && (
+                  <button
+                    onClick={() => handleWithdrawPayments(campaign.campaignAddress)}
+                    disabled={withdrawing === campaign.campaignAddress}
+                    className="w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded font-medium disabled:bg-gray-400"
+                  >
+                    {withdrawing === campaign.campaignAddress ? 'Withdrawing...' : `Withdraw ${pendingWithdrawal} ${details.token.symbol} to wallet`}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
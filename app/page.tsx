@@ -2,30 +2,38 @@
 
 import Link from "next/link";
 import { useEffect, useState } from "react";
-import { web3Service } from "@/lib/web3";
+import { web3Service, type Campaign } from "@/lib/web3";
 import { CampaignState } from "@/lib/contracts";
+import { ACTIVE_NETWORK } from "@/lib/networks";
+import { isNativeToken } from "@/lib/tokens";
 
 
-interface Campaign {
-  campaignAddress: string;
-  owner: string;
-  name: string;
-  creationTime: number;
-}
-
 interface CampaignDetails {
   name: string;
   description: string;
   goal: string;
   deadline: number;
+  startTime: number;
   owner: string;
   paused: boolean;
   state: number;
   balance: string;
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
   tiers: Array<{
     name: string;
     amount: string;
     backers: number;
+    id: number;
+    description: string;
+    maxBackers: number;
+    deliveryDate: number;
   }>;
 }
 
@@ -45,33 +53,20 @@ export default function HomePage() {
       setError(null);
       setNetworkError(null);
 
-      // Check if we're on the correct network first
-      const isCorrectNetwork = await web3Service.isOnCorrectNetwork();
-      if (!isCorrectNetwork) {
-        setNetworkError('Please switch to Holesky Testnet to view campaigns');
-        setLoading(false);
-        return;
-      }
-
-      const allCampaigns = await web3Service.getAllCampaigns();
+      // Campaigns are read from every configured chain over RPC, whatever network the wallet is on
+      const allCampaigns = await web3Service.getCampaignsFromAllChains();
       setCampaigns(allCampaigns || []);
 
-      // Load details for each campaign (limit to first 6 for performance)
-      const details: Record<string, CampaignDetails> = {};
-      for (const campaign of allCampaigns.slice(0, 6)) {
-        try {
-          const detail = await web3Service.getCampaignDetails(campaign.campaignAddress);
-          details[campaign.campaignAddress] = detail;
-        } catch (error) {
-          console.error(`Failed to load details for ${campaign.campaignAddress}:`, error);
-        }
-      }
+      // Load details for the featured campaigns in one batch
+      const details = await web3Service.getCampaignDetailsBatch(
+        allCampaigns.slice(0, 6).map(campaign => campaign.campaignAddress)
+      );
       setCampaignDetails(details);
     } catch (error) {
       console.error('Failed to load campaigns:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to load campaigns';
 
-      if (errorMessage.includes('switch to the correct network') || errorMessage.includes('Holesky')) {
+      if (errorMessage.includes('switch to the correct network') || errorMessage.includes(ACTIVE_NETWORK.name)) {
         setNetworkError(errorMessage);
       } else {
         setError(errorMessage);
@@ -99,6 +94,7 @@ export default function HomePage() {
       case CampaignState.Active: return "Active";
       case CampaignState.Successful: return "Successful";
       case CampaignState.Failed: return "Failed";
+      case CampaignState.Upcoming: return "Upcoming";
       default: return "Unknown";
     }
   };
@@ -110,6 +106,7 @@ export default function HomePage() {
       case CampaignState.Active: return "bg-emerald-50 text-emerald-700 border-emerald-200";
       case CampaignState.Successful: return "bg-blue-50 text-blue-700 border-blue-200";
       case CampaignState.Failed: return "bg-rose-50 text-rose-700 border-rose-200";
+      case CampaignState.Upcoming: return "bg-amber-50 text-amber-700 border-amber-200";
       default: return "bg-slate-50 text-slate-700 border-slate-200";
     }
   };
@@ -246,7 +243,7 @@ export default function HomePage() {
               <h3 className="text-lg font-medium text-slate-900 mb-2">No campaigns yet</h3>
               <p className="text-slate-600 mb-6 max-w-md mx-auto">
                 {networkError
-                  ? "Switch to Holesky Testnet to view and create campaigns"
+                  ? `Switch to ${ACTIVE_NETWORK.name} to view and create campaigns`
                   : "Be the first to create a campaign and start raising funds for your project"
                 }
               </p>
@@ -268,7 +265,7 @@ export default function HomePage() {
                 const progress = (parseFloat(details.balance) / parseFloat(details.goal)) * 100;
 
                 return (
-                  <div key={campaign.campaignAddress} className="group bg-white rounded-2xl p-8 hover:shadow-xl transition-all duration-300 border border-slate-100">
+                  <div key={`${campaign.chainId}-${campaign.campaignAddress}`} className="group bg-white rounded-2xl p-8 hover:shadow-xl transition-all duration-300 border border-slate-100">
                     <div className="flex justify-between items-start mb-6">
                       <h3 className="text-xl font-medium text-slate-900 leading-tight">
                         {details.name}
@@ -285,10 +282,10 @@ export default function HomePage() {
                     <div className="mb-6">
                       <div className="flex justify-between items-center mb-3">
                         <span className="text-sm font-medium text-slate-900">
-                          {details.balance} ETH
+                          {details.balance} {details.token.symbol}
                         </span>
                         <span className="text-xs text-slate-500">
-                          of {details.goal} ETH
+                          of {details.goal} {details.token.symbol}
                         </span>
                       </div>
                       <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden">
@@ -300,12 +297,16 @@ export default function HomePage() {
                     </div>
 
                     <div className="flex justify-between text-xs text-slate-500 mb-8">
-                      <span>{formatDeadline(details.deadline)}</span>
+                      <span>
+                        {details.state === CampaignState.Upcoming
+                          ? `Launches ${new Date(details.startTime * 1000).toLocaleDateString()}`
+                          : formatDeadline(details.deadline)}
+                      </span>
                       <span>{details.tiers.reduce((sum, tier) => sum + tier.backers, 0)} backers</span>
                     </div>
 
                     <Link
-                      href={`/campaign/${campaign.campaignAddress}`}
+                      href={`/campaign/${campaign.campaignAddress}?chainId=${campaign.chainId}`}
                       className="block w-full text-center bg-slate-50  text-slate-900 py-3 rounded-xl font-medium transition-colors group-hover:bg-slate-900 group-hover:text-white border border-slate-400/30"
                     >
                       View Project
@@ -329,9 +330,11 @@ export default function HomePage() {
             </div>
             <div className="text-center">
               <div className="text-4xl font-light text-slate-900 mb-3">
-                {Object.values(campaignDetails).reduce((sum, details) => sum + parseFloat(details.balance || '0'), 0).toFixed(1)}
+                {Object.values(campaignDetails)
+                  .filter((details) => isNativeToken(details.token.address))
+                  .reduce((sum, details) => sum + parseFloat(details.balance || '0'), 0).toFixed(1)}
               </div>
-              <div className="text-slate-600 font-medium">ETH Raised</div>
+              <div className="text-slate-600 font-medium">{ACTIVE_NETWORK.nativeCurrency.symbol} Raised</div>
             </div>
             <div className="text-center">
               <div className="text-4xl font-light text-slate-900 mb-3">
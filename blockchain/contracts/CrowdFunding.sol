@@ -1,14 +1,31 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.30;
 
+import {IERC20} from "./IERC20.sol";
+
 contract CrowdFunding {
     string public name;
     string public description;
     uint256 public goal;
     uint256 public deadline;
+    // Funding opens at this time; tiers and details can be prepared before it
+    uint256 public startTime;
+    // Bounds on how long funding stays open, measured from startTime
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 365 days;
     address public owner;
+    // Contract that deployed the campaign, i.e. the factory; it may delete the campaign on the owner's behalf
+    address public factory;
     bool public paused;
     bool public deleted;
+    // Currency contributions are made in: address(0) for the chain's native coin, otherwise an ERC-20.
+    // Every amount (goal, tiers, contributions, payouts) is denominated in it
+    address public token;
+    // Funding policy, fixed at creation: by default the campaign succeeds and closes the moment it
+    // reaches its goal; with fundUntilDeadline it keeps raising until the deadline, or until hardCap
+    // (0 for no cap) is reached
+    bool public fundUntilDeadline;
+    uint256 public hardCap;
 
     enum CampaignState {
         Active,
@@ -17,25 +34,75 @@ contract CrowdFunding {
     }
     CampaignState public state;
 
+    // id stays fixed for the tier's lifetime; its index moves when another tier is removed
     struct Tier {
         string name;
         uint256 amount;
         uint256 backers;
+        uint256 id;
+        string description;
+        // Cap on unique backers; 0 means unlimited
+        uint256 maxBackers;
+        // Estimated reward delivery as a unix timestamp; 0 when not given
+        uint256 deliveryDate;
+    }
+
+    struct Milestone {
+        string title;
+        // Share of the raised funds released by this milestone, in whole percent
+        uint256 percentage;
+        // Sum of the contributions of backers who approved the release
+        uint256 approvals;
+        bool released;
     }
 
     struct Backer {
         uint256 totalContribution;
-        mapping(uint256 => bool) fundedTier;
+        // Amount contributed per tier, keyed by tier id
+        mapping(uint256 => uint256) tierContribution;
     }
 
     Tier[] public tiers;
     mapping(address => Backer) public backers;
+    uint256 private nextTierId;
+
+    // Free-form donations made through donate(), per backer; also counted in totalContribution
+    mapping(address => uint256) public donations;
+    // Smallest accepted donation; 0 accepts any non-zero amount
+    uint256 public minDonation;
+    // Raised through tiers and through donations, net of refunds
+    uint256 public totalTiered;
+    uint256 public totalDonated;
+
+    // Pull payments: withdraw, refund and executeEmergencyWithdraw credit these, withdrawPayments sends them
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+    bool private locked;
+
+    // Emergency withdrawals are announced first so backers can refund before funds leave
+    uint256 public constant EMERGENCY_WITHDRAW_DELAY = 3 days;
+    // Earliest time the pending request can be executed; 0 when nothing is requested
+    uint256 public emergencyWithdrawAvailableAt;
+
+    // Optional; when set, a successful campaign pays out one backer-approved milestone at a time instead of via withdraw()
+    Milestone[] public milestones;
+    uint256 public currentMilestone;
+    // Weight each backer approved the current milestone with, keyed by milestone index
+    mapping(uint256 => mapping(address => uint256)) public milestoneApprovals;
+
+    // Ascending thresholds above the goal, announced as the amount raised crosses them; only campaigns
+    // funding until the deadline have them. The first stretchGoalsReached have been crossed
+    uint256[] public stretchGoals;
+    uint256 public stretchGoalsReached;
 
     // Events
     event FundReceived(address indexed backer, uint256 amount, uint256 tierIndex);
+    event DonationReceived(address indexed backer, uint256 amount);
+    event MinDonationUpdated(uint256 minDonation);
     event CampaignStateChanged(CampaignState newState);
-    event TierAdded(string name, uint256 amount);
+    event TierAdded(string name, uint256 amount, string description, uint256 maxBackers, uint256 deliveryDate);
     event TierRemoved(uint256 index);
+    event TierUpdated(uint256 index, string name, uint256 amount);
     event FundsWithdrawn(address indexed owner, uint256 amount);
     event RefundIssued(address indexed backer, uint256 amount);
     event CampaignPaused(bool paused);
@@ -43,76 +110,287 @@ contract CrowdFunding {
     event CampaignDetailsUpdated(string newName, string newDescription, uint256 newGoal);
     event CampaignDeleted(address indexed by);
     event EmergencyWithdraw(address indexed owner, uint256 amount);
+    event EmergencyWithdrawRequested(address indexed owner, uint256 availableAt);
+    event EmergencyWithdrawCancelled(address indexed owner);
+    event PaymentWithdrawn(address indexed payee, uint256 amount);
+    event MilestoneApproved(uint256 indexed index, address indexed backer, uint256 weight);
+    event MilestoneReleased(uint256 indexed index, uint256 amount);
+    event StretchGoalAdded(uint256 indexed index, uint256 amount);
+    event StretchGoalReached(uint256 indexed index, uint256 amount);
+
+    // Errors
+    error NotOwner();
+    error ContractPaused();
+    error CampaignNotActive();
+    error CampaignNotStarted();
+    error CampaignIsDeleted();
+    error ReentrantCall();
+    error TokenNotContract();
+    error InvalidHardCap();
+    error StartTimeInPast();
+    // Titles and percentages differ in length, a percentage is 0, or they do not total 100
+    error InvalidMilestones();
+    error DeadlineTooSoon();
+    error DeadlineTooFar();
+    error DeadlineNotLater();
+    error InvalidGoal();
+    error GoalAboveHardCap();
+    error GoalAboveStretchGoal();
+    error InvalidTier();
+    error IncorrectAmount();
+    error TierSoldOut();
+    error TierHasBackers();
+    error DeliveryDateInPast();
+    error InvalidAmount();
+    error DonationBelowMinimum();
+    // Native currency sent to a token campaign, or the other way round
+    error WrongCurrency();
+    error UnsupportedToken();
+    error TransferFailed();
+    error ExceedsHardCap();
+    error ClosesAtGoal();
+    error StretchGoalTooLow();
+    error StretchGoalAboveHardCap();
+    error CampaignNotSuccessful();
+    error ReleasedByMilestone();
+    error NoFundsAvailable();
+    error InsufficientBalance();
+    error NoContribution();
+    error NoMilestonePending();
+    error AlreadyApproved();
+    error MilestoneNotApproved();
+    error RefundNotAvailable();
+    error NoPendingPayment();
+    error EmergencyWithdrawAlreadyRequested();
+    error NoEmergencyWithdrawRequested();
+    error EmergencyWithdrawLocked(uint256 availableAt);
 
     modifier onlyOwner() {
-        require(msg.sender == owner, "You're not the owner");
+        require(msg.sender == owner, NotOwner());
         _;
     }
 
     modifier notPaused() {
-        require(!paused, "Contract is paused");
+        require(!paused, ContractPaused());
         _;
     }
 
     modifier campaignOpen() {
-        require(state == CampaignState.Active, "Campaign is not active");
+        require(state == CampaignState.Active, CampaignNotActive());
+        _;
+    }
+
+    modifier hasStarted() {
+        require(block.timestamp >= startTime, CampaignNotStarted());
         _;
     }
 
     modifier notDeleted() {
-        require(!deleted, "Campaign has been deleted");
+        require(!deleted, CampaignIsDeleted());
         _;
     }
 
+    modifier nonReentrant() {
+        require(!locked, ReentrantCall());
+        locked = true;
+        _;
+        locked = false;
+    }
+
     constructor(
         address _owner,
         string memory _name,
         string memory _description,
         uint256 _goal,
-        uint256 _duration
+        uint256 _startTime,
+        uint256 _deadline,
+        address _token,
+        bool _fundUntilDeadline,
+        uint256 _hardCap,
+        string[] memory _milestoneTitles,
+        uint256[] memory _milestonePercentages
     ) {
+        require(_token == address(0) || _token.code.length > 0, TokenNotContract());
+        // A hard cap only applies to campaigns that keep funding past their goal
+        require(_hardCap == 0 || (_fundUntilDeadline && _hardCap >= _goal), InvalidHardCap());
+        require(_startTime == 0 || _startTime >= block.timestamp, StartTimeInPast());
+        require(_milestoneTitles.length == _milestonePercentages.length, InvalidMilestones());
+        if (_milestoneTitles.length > 0) {
+            uint256 totalPercentage;
+            for (uint256 i = 0; i < _milestoneTitles.length; i++) {
+                require(_milestonePercentages[i] > 0, InvalidMilestones());
+                totalPercentage += _milestonePercentages[i];
+                milestones.push(Milestone(_milestoneTitles[i], _milestonePercentages[i], 0, false));
+            }
+            require(totalPercentage == 100, InvalidMilestones());
+        }
+
         name = _name;
         description = _description;
         goal = _goal;
-        deadline = block.timestamp + (_duration * 1 days);
+        // 0 launches immediately
+        startTime = _startTime == 0 ? block.timestamp : _startTime;
+        require(_deadline >= startTime + MIN_DURATION, DeadlineTooSoon());
+        require(_deadline <= startTime + MAX_DURATION, DeadlineTooFar());
+        deadline = _deadline;
         owner = _owner;
+        factory = msg.sender;
+        token = _token;
+        fundUntilDeadline = _fundUntilDeadline;
+        hardCap = _hardCap;
         state = CampaignState.Active;
         deleted = false;
     }
 
     // ---------------- Core Functions ---------------- //
 
-    function fund(uint256 _tierIndex) public payable campaignOpen notPaused notDeleted {
-        require(_tierIndex < tiers.length, "Invalid Tier");
-        require(msg.value == tiers[_tierIndex].amount, "Incorrect Amount");
+    /// @notice Back a tier with exactly its amount; token campaigns pull it via transferFrom, so approve first
+    function fund(uint256 _tierIndex) public payable campaignOpen hasStarted notPaused notDeleted nonReentrant {
+        require(_tierIndex < tiers.length, InvalidTier());
 
-        tiers[_tierIndex].backers++;
-        backers[msg.sender].totalContribution += msg.value;
-        backers[msg.sender].fundedTier[_tierIndex] = true;
+        Tier storage tier = tiers[_tierIndex];
+        Backer storage backer = backers[msg.sender];
 
-        emit FundReceived(msg.sender, msg.value, _tierIndex);
+        if (token == address(0)) {
+            require(msg.value == tier.amount, IncorrectAmount());
+        } else {
+            _collectToken(tier.amount);
+        }
+
+        // backers counts unique accounts per tier, not contributions
+        if (backer.tierContribution[tier.id] == 0) {
+            require(tier.maxBackers == 0 || tier.backers < tier.maxBackers, TierSoldOut());
+            tier.backers++;
+        }
+        backer.tierContribution[tier.id] += tier.amount;
+        backer.totalContribution += tier.amount;
+        totalTiered += tier.amount;
+
+        emit FundReceived(msg.sender, tier.amount, _tierIndex);
         checkAndUpdateCampaign();
     }
 
-    function withdraw() public onlyOwner notDeleted {
+    /// @notice Contribute any amount at or above minDonation without picking a tier (native campaigns)
+    function donate() public payable campaignOpen hasStarted notPaused notDeleted nonReentrant {
+        require(token == address(0), WrongCurrency());
+        _recordDonation(msg.value);
+    }
+
+    /// @notice donate() for token campaigns; the amount is pulled via transferFrom, so approve first
+    function donateToken(uint256 _amount) external campaignOpen hasStarted notPaused notDeleted nonReentrant {
+        require(token != address(0), WrongCurrency());
+        _collectToken(_amount);
+        _recordDonation(_amount);
+    }
+
+    /// @notice Credit the raised funds to the owner's pending withdrawal
+    function withdraw() public onlyOwner notDeleted nonReentrant {
         checkAndUpdateCampaign();
-        require(state == CampaignState.Successful, "Campaign not successful");
+        require(state == CampaignState.Successful, CampaignNotSuccessful());
+        require(milestones.length == 0, ReleasedByMilestone());
 
-        uint256 balance = address(this).balance;
-        require(balance > 0, "No balance to withdraw");
+        uint256 balance = getContractBalance();
+        require(balance > 0, NoFundsAvailable());
 
         emit FundsWithdrawn(owner, balance);
-        payable(owner).transfer(balance);
+        _asyncTransfer(owner, balance);
+    }
+
+    /// @notice Approve releasing the current milestone, weighted by the caller's contribution
+    function approveMilestone() external notDeleted {
+        checkAndUpdateCampaign();
+        require(state == CampaignState.Successful, CampaignNotSuccessful());
+        require(currentMilestone < milestones.length, NoMilestonePending());
+
+        uint256 weight = backers[msg.sender].totalContribution;
+        require(weight > 0, NoContribution());
+        require(milestoneApprovals[currentMilestone][msg.sender] == 0, AlreadyApproved());
+
+        milestoneApprovals[currentMilestone][msg.sender] = weight;
+        milestones[currentMilestone].approvals += weight;
+        emit MilestoneApproved(currentMilestone, msg.sender, weight);
     }
 
-    function refund() public  {
+    /// @notice Credit the current milestone's share to the owner once backers holding
+    ///         more than half of the raised funds have approved it
+    function releaseMilestone() external onlyOwner notDeleted nonReentrant {
         checkAndUpdateCampaign();
-        uint256 amount = backers[msg.sender].totalContribution;
-        require(amount > 0, "No contributions");
-        backers[msg.sender].totalContribution = 0;
+        require(state == CampaignState.Successful, CampaignNotSuccessful());
+        require(currentMilestone < milestones.length, NoMilestonePending());
+
+        Milestone storage milestone = milestones[currentMilestone];
+        require(milestone.approvals * 2 > totalTiered + totalDonated, MilestoneNotApproved());
+
+        // The last milestone sweeps whatever rounding and refunds left behind
+        uint256 balance = getContractBalance();
+        uint256 amount = currentMilestone == milestones.length - 1
+            ? balance
+            : ((totalTiered + totalDonated) * milestone.percentage) / 100;
+        if (amount > balance) amount = balance;
+
+        milestone.released = true;
+        emit MilestoneReleased(currentMilestone, amount);
+        currentMilestone++;
+        _asyncTransfer(owner, amount);
+    }
+
+    /// @notice Credit the caller's whole contribution back once the campaign has failed or been deleted,
+    ///         or while an emergency withdrawal is pending
+    function refund() public nonReentrant {
+        checkAndUpdateCampaign();
+        require(
+            state == CampaignState.Failed || emergencyWithdrawAvailableAt != 0,
+            RefundNotAvailable()
+        );
+
+        Backer storage backer = backers[msg.sender];
+        uint256 amount = backer.totalContribution;
+        require(amount > 0, NoContribution());
+        require(amount <= getContractBalance(), InsufficientBalance());
+        backer.totalContribution = 0;
+
+        // A refunded backer no longer counts towards the pending milestone
+        if (currentMilestone < milestones.length) {
+            uint256 approval = milestoneApprovals[currentMilestone][msg.sender];
+            if (approval > 0) {
+                milestoneApprovals[currentMilestone][msg.sender] = 0;
+                milestones[currentMilestone].approvals -= approval;
+            }
+        }
+
+        uint256 donated = donations[msg.sender];
+        donations[msg.sender] = 0;
+        totalDonated -= donated;
+        totalTiered -= amount - donated;
+
+        // Tiers with backers cannot be removed, so every funded tier is still in the array
+        for (uint256 i = 0; i < tiers.length; i++) {
+            uint256 tierId = tiers[i].id;
+            if (backer.tierContribution[tierId] > 0) {
+                backer.tierContribution[tierId] = 0;
+                tiers[i].backers--;
+            }
+        }
 
         emit RefundIssued(msg.sender, amount);
-        payable(msg.sender).transfer(amount);
+        _asyncTransfer(msg.sender, amount);
+    }
+
+    /// @notice Send the caller everything credited to them; works for contract wallets that need more than 2300 gas
+    function withdrawPayments() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, NoPendingPayment());
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+
+        emit PaymentWithdrawn(msg.sender, amount);
+        if (token == address(0)) {
+            (bool success, ) = payable(msg.sender).call{value: amount}("");
+            require(success, TransferFailed());
+        } else {
+            _callToken(abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        }
     }
 
     // ---------------- New Features ---------------- //
@@ -123,7 +401,9 @@ contract CrowdFunding {
         string memory _newDescription,
         uint256 _newGoal
     ) external onlyOwner notDeleted campaignOpen {
-        require(_newGoal > 0, "Goal must be > 0");
+        require(_newGoal > 0, InvalidGoal());
+        require(hardCap == 0 || _newGoal <= hardCap, GoalAboveHardCap());
+        require(stretchGoals.length == 0 || _newGoal < stretchGoals[0], GoalAboveStretchGoal());
         name = _newName;
         description = _newDescription;
         goal = _newGoal;
@@ -131,33 +411,106 @@ contract CrowdFunding {
         emit CampaignDetailsUpdated(_newName, _newDescription, _newGoal);
     }
 
-    /// @notice Soft delete campaign (cannot be funded anymore)
+    /// @notice Add the next stretch goal; it must be above the goal, every earlier stretch goal
+    ///         and what has been raised so far, and within the hard cap
+    function addStretchGoal(uint256 _amount) external onlyOwner notDeleted campaignOpen {
+        require(fundUntilDeadline, ClosesAtGoal());
+        uint256 floor = stretchGoals.length == 0 ? goal : stretchGoals[stretchGoals.length - 1];
+        require(_amount > floor && _amount > totalTiered + totalDonated, StretchGoalTooLow());
+        require(hardCap == 0 || _amount <= hardCap, StretchGoalAboveHardCap());
+
+        stretchGoals.push(_amount);
+        emit StretchGoalAdded(stretchGoals.length - 1, _amount);
+    }
+
+    /// @notice Soft delete campaign (cannot be funded anymore). Only the owner, directly or through the factory
     function deleteCampaign() external notDeleted {
+        require(msg.sender == owner || msg.sender == factory, NotOwner());
         deleted = true;
         state = CampaignState.Failed; // mark failed to enable refunds
         emit CampaignDeleted(msg.sender);
     }
 
-    /// @notice Emergency withdraw funds regardless of state
-    function emergencyWithdraw() external onlyOwner {
-        uint256 balance = address(this).balance;
-        require(balance > 0, "No funds available");
+    /// @notice Announce an emergency withdrawal; refunds open until it is executed or cancelled
+    function requestEmergencyWithdraw() external onlyOwner {
+        require(emergencyWithdrawAvailableAt == 0, EmergencyWithdrawAlreadyRequested());
+        require(getContractBalance() > 0, NoFundsAvailable());
+
+        emergencyWithdrawAvailableAt = block.timestamp + EMERGENCY_WITHDRAW_DELAY;
+        emit EmergencyWithdrawRequested(owner, emergencyWithdrawAvailableAt);
+    }
+
+    function cancelEmergencyWithdraw() external onlyOwner {
+        require(emergencyWithdrawAvailableAt != 0, NoEmergencyWithdrawRequested());
+
+        emergencyWithdrawAvailableAt = 0;
+        emit EmergencyWithdrawCancelled(owner);
+    }
+
+    /// @notice Credit whatever backers have not refunded to the owner once the delay has passed
+    function executeEmergencyWithdraw() external onlyOwner nonReentrant {
+        require(emergencyWithdrawAvailableAt != 0, NoEmergencyWithdrawRequested());
+        require(block.timestamp >= emergencyWithdrawAvailableAt, EmergencyWithdrawLocked(emergencyWithdrawAvailableAt));
+        emergencyWithdrawAvailableAt = 0;
+
+        uint256 balance = getContractBalance();
+        require(balance > 0, NoFundsAvailable());
 
         emit EmergencyWithdraw(owner, balance);
-        payable(owner).transfer(balance);
+        _asyncTransfer(owner, balance);
     }
 
     // ---------------- Helpers ---------------- //
 
+    function _recordDonation(uint256 _amount) internal {
+        require(_amount > 0, InvalidAmount());
+        require(_amount >= minDonation, DonationBelowMinimum());
+
+        backers[msg.sender].totalContribution += _amount;
+        donations[msg.sender] += _amount;
+        totalDonated += _amount;
+
+        emit DonationReceived(msg.sender, _amount);
+        checkAndUpdateCampaign();
+    }
+
+    /// @dev Pulls exactly _amount from the caller; fee-on-transfer tokens would leave the ledger short
+    function _collectToken(uint256 _amount) internal {
+        require(msg.value == 0, WrongCurrency());
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        _callToken(abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), _amount)));
+        require(IERC20(token).balanceOf(address(this)) - balanceBefore == _amount, UnsupportedToken());
+    }
+
+    /// @dev Accepts tokens that return nothing from transfer/transferFrom, like USDT
+    function _callToken(bytes memory _data) internal {
+        (bool success, bytes memory returnData) = token.call(_data);
+        require(success && (returnData.length == 0 || abi.decode(returnData, (bool))), TransferFailed());
+    }
+
+    function _asyncTransfer(address _payee, uint256 _amount) internal {
+        pendingWithdrawals[_payee] += _amount;
+        totalPendingWithdrawals += _amount;
+    }
+
     function checkAndUpdateCampaign() internal {
+        // Only a contribution can push the total up, so this rejects the one that would pass the cap
+        uint256 raised = totalTiered + totalDonated;
+        require(hardCap == 0 || raised <= hardCap, ExceedsHardCap());
+        while (stretchGoalsReached < stretchGoals.length && raised >= stretchGoals[stretchGoalsReached]) {
+            emit StretchGoalReached(stretchGoalsReached, stretchGoals[stretchGoalsReached]);
+            stretchGoalsReached++;
+        }
+
         if (state == CampaignState.Active) {
+            uint256 balance = getContractBalance();
             CampaignState newState;
             if (block.timestamp >= deadline) {
-                newState = address(this).balance >= goal
+                newState = balance >= goal
                     ? CampaignState.Successful
                     : CampaignState.Failed;
             } else {
-                newState = address(this).balance >= goal
+                newState = _closesEarly(balance)
                     ? CampaignState.Successful
                     : CampaignState.Active;
             }
@@ -169,48 +522,97 @@ contract CrowdFunding {
         }
     }
 
-    function addTier(string memory _name, uint256 _amount) public onlyOwner notDeleted {
-        require(_amount > 0, "Amount must be greater than 0");
-        tiers.push(Tier(_name, _amount, 0));
-        emit TierAdded(_name, _amount);
+    /// @dev Whether the campaign is done raising before its deadline: at the goal, or at the hard cap
+    ///      when it funds until the deadline
+    function _closesEarly(uint256 _balance) internal view returns (bool) {
+        if (fundUntilDeadline) return hardCap != 0 && _balance >= hardCap;
+        return _balance >= goal;
+    }
+
+    function addTier(
+        string memory _name,
+        string memory _description,
+        uint256 _amount,
+        uint256 _maxBackers,
+        uint256 _deliveryDate
+    ) public onlyOwner notDeleted {
+        require(_amount > 0, InvalidAmount());
+        require(_deliveryDate == 0 || _deliveryDate > block.timestamp, DeliveryDateInPast());
+        tiers.push(Tier(_name, _amount, 0, nextTierId++, _description, _maxBackers, _deliveryDate));
+        emit TierAdded(_name, _amount, _description, _maxBackers, _deliveryDate);
     }
 
     function removeTier(uint256 _index) public onlyOwner notDeleted {
-        require(_index < tiers.length, "Tier doesn't exist");
+        require(_index < tiers.length, InvalidTier());
+        require(tiers[_index].backers == 0, TierHasBackers());
         tiers[_index] = tiers[tiers.length - 1];
         tiers.pop();
         emit TierRemoved(_index);
     }
 
+    /// @notice Renames or reprices a tier in place; once it has backers only the name can change
+    function updateTier(uint256 _index, string memory _name, uint256 _amount) public onlyOwner notDeleted {
+        require(_index < tiers.length, InvalidTier());
+        require(_amount > 0, InvalidAmount());
+        Tier storage tier = tiers[_index];
+        require(tier.backers == 0 || tier.amount == _amount, TierHasBackers());
+        tier.name = _name;
+        tier.amount = _amount;
+        emit TierUpdated(_index, _name, _amount);
+    }
+
+    /// @notice Funds held for the campaign, excluding payments credited but not yet pulled
     function getContractBalance() public view returns (uint256) {
-        return address(this).balance;
+        uint256 held = token == address(0) ? address(this).balance : IERC20(token).balanceOf(address(this));
+        return held - totalPendingWithdrawals;
     }
 
     function hasFundedTier(address _backer, uint256 _tierIndex) public view returns (bool) {
-        return backers[_backer].fundedTier[_tierIndex];
+        return getTierContribution(_backer, _tierIndex) > 0;
+    }
+
+    function getTierContribution(address _backer, uint256 _tierIndex) public view returns (uint256) {
+        require(_tierIndex < tiers.length, InvalidTier());
+        return backers[_backer].tierContribution[tiers[_tierIndex].id];
     }
 
     function getTiers() public view returns (Tier[] memory) {
         return tiers;
     }
 
+    function getMilestones() public view returns (Milestone[] memory) {
+        return milestones;
+    }
+
+    function getStretchGoals() public view returns (uint256[] memory) {
+        return stretchGoals;
+    }
+
+    function setMinDonation(uint256 _minDonation) public onlyOwner notDeleted {
+        minDonation = _minDonation;
+        emit MinDonationUpdated(_minDonation);
+    }
+
     function togglePause() public onlyOwner {
         paused = !paused;
         emit CampaignPaused(paused);
     }
 
-    function extendDeadline(uint256 _extendedDays) public onlyOwner campaignOpen notDeleted {
-        deadline += _extendedDays * 1 days;
+    /// @notice Moves the deadline to a later timestamp, still within MAX_DURATION of the start
+    function extendDeadline(uint256 _newDeadline) public onlyOwner campaignOpen notDeleted {
+        require(_newDeadline > deadline, DeadlineNotLater());
+        require(_newDeadline <= startTime + MAX_DURATION, DeadlineTooFar());
+        deadline = _newDeadline;
         emit DeadlineExtended(deadline);
     }
 
+    /// @notice The state checkAndUpdateCampaign would settle on if it ran now
     function getCampaignStatus() public view returns (CampaignState) {
         if (deleted) return CampaignState.Failed;
-        if (state == CampaignState.Active && block.timestamp < deadline) {
-            return address(this).balance >= goal
-                ? CampaignState.Successful
-                : CampaignState.Active;
-        }
-        return state;
+        if (state != CampaignState.Active) return state;
+        uint256 balance = getContractBalance();
+        if (_closesEarly(balance)) return CampaignState.Successful;
+        if (block.timestamp < deadline) return CampaignState.Active;
+        return balance >= goal ? CampaignState.Successful : CampaignState.Failed;
     }
 }
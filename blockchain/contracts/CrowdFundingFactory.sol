@@ -25,13 +25,18 @@ contract CrowdFundingFactory {
         uint256 creationTime
     );
 
+    error NotOwner();
+    error FactoryPaused();
+    error CampaignNotFound();
+    error NotCampaignOwner();
+
     modifier onlyOwner() {
-        require(msg.sender == owner, "Not Owner");
+        require(msg.sender == owner, NotOwner());
         _;
     }
 
     modifier notPaused() {
-        require(!paused, " Factory is Paused");
+        require(!paused, FactoryPaused());
         _;
     }
 
@@ -43,14 +48,26 @@ contract CrowdFundingFactory {
         string memory _name,
         string memory _description,
         uint256 _goal,
-        uint256 _duration
+        uint256 _startTime,
+        uint256 _deadline,
+        address _token,
+        bool _fundUntilDeadline,
+        uint256 _hardCap,
+        string[] memory _milestoneTitles,
+        uint256[] memory _milestonePercentages
     ) external notPaused {
         CrowdFunding newCampaign = new CrowdFunding(
             msg.sender,
             _name,
             _description,
             _goal,
-            _duration
+            _startTime,
+            _deadline,
+            _token,
+            _fundUntilDeadline,
+            _hardCap,
+            _milestoneTitles,
+            _milestonePercentages
         );
 
         address campaignAddress = address(newCampaign);
@@ -84,6 +101,30 @@ contract CrowdFundingFactory {
         return campaigns;
     }
 
+    function campaignCount() external view returns (uint256) {
+        return campaigns.length;
+    }
+
+    // Returns up to _limit campaigns starting at _offset; empty once _offset passes the end
+    function getCampaignsPaginated(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (Campaign[] memory)
+    {
+        uint256 total = campaigns.length;
+        if (_offset >= total) {
+            return new Campaign[](0);
+        }
+
+        uint256 end = _limit > total - _offset ? total : _offset + _limit;
+
+        Campaign[] memory page = new Campaign[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = campaigns[i];
+        }
+        return page;
+    }
+
     function togglePause() external onlyOwner {
         paused = !paused;
     }
@@ -99,10 +140,10 @@ contract CrowdFundingFactory {
             break;
         }
     }
-    require(exists, "Campaign not found");
+    require(exists, CampaignNotFound());
 
   
-    require(msg.sender == campaigns[idx].owner, "Not campaign owner");
+    require(msg.sender == campaigns[idx].owner, NotCampaignOwner());
 
    
     CrowdFunding(_campaignAddr).deleteCampaign();
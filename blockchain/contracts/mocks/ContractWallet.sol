@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+interface ICrowdFunding {
+    function fund(uint256 _tierIndex) external payable;
+    function refund() external;
+    function withdrawPayments() external;
+}
+
+/// @notice Test stand-in for a smart-contract wallet such as a Safe; its receive() needs more than 2300 gas
+contract ContractWallet {
+    ICrowdFunding public immutable campaign;
+    uint256 public received;
+    bool public reenter;
+
+    constructor(address _campaign) {
+        campaign = ICrowdFunding(_campaign);
+    }
+
+    function fund(uint256 _tierIndex) external payable {
+        campaign.fund{value: msg.value}(_tierIndex);
+    }
+
+    function refund() external {
+        campaign.refund();
+    }
+
+    function withdrawPayments() external {
+        campaign.withdrawPayments();
+    }
+
+    function setReenter(bool _reenter) external {
+        reenter = _reenter;
+    }
+
+    receive() external payable {
+        received += msg.value;
+        if (reenter) {
+            campaign.withdrawPayments();
+        }
+    }
+}
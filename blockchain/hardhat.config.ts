@@ -9,8 +9,16 @@ const config: HardhatUserConfig = {
   plugins: [hardhatToolboxViemPlugin],
   solidity: {
     profiles: {
+      // The factory embeds the campaign's creation code, so it only fits under the
+      // 24 KB contract size limit with the optimizer on
       default: {
         version: "0.8.30",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
       },
       production: {
         version: "0.8.30",
@@ -7,5 +7,12 @@ export default buildModule("CrowdFundingFactoryModule", (m) => {
     from: deployer,
   });
 
-  return { factory };
+  // Public chains already have the canonical Multicall3; deploying it after the
+  // factory keeps its local address stable (nonce 1 of the default account)
+  const multicall = m.contract("Multicall3", [], {
+    from: deployer,
+    after: [factory],
+  });
+
+  return { factory, multicall };
 });
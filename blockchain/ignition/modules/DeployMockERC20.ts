@@ -0,0 +1,14 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Local-only stand-in stablecoin for token campaigns; run after DeployCrowdFundingFactory so it
+// lands at a stable address (nonce 2 of the default account)
+export default buildModule("MockERC20Module", (m) => {
+  const token = m.contract("MockERC20", ["Test USD", "TUSD", 6]);
+
+  // 10,000 TUSD for each of the first three Hardhat accounts
+  for (let i = 0; i < 3; i++) {
+    m.call(token, "mint", [m.getAccount(i), 10_000n * 10n ** 6n], { id: `mint_${i}` });
+  }
+
+  return { token };
+});
@@ -0,0 +1,1341 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, parseUnits, zeroAddress } from "viem";
+
+const DAY = 24 * 60 * 60;
+
+const State = {
+  Active: 0,
+  Successful: 1,
+  Failed: 2,
+} as const;
+
+describe("CrowdFunding", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner, backer, otherBacker] = await viem.getWalletClients();
+
+  // Absolute deadline the given number of days after the latest block
+  async function inDays(days: number) {
+    return BigInt(await networkHelpers.time.latest()) + BigInt(days * DAY);
+  }
+
+  // 5 ETH goal over 30 days with three tiers: Bronze 1, Silver 2, Gold 3
+  async function deployCampaign() {
+    const campaign = await viem.deployContract("CrowdFunding", [
+      owner.account.address,
+      "Solar Roof",
+      "Panels for the community hall",
+      parseEther("5"),
+      0n,
+      await inDays(30),
+      zeroAddress,
+      false,
+      0n,
+      [],
+      [],
+    ]);
+
+    await campaign.write.addTier(["Bronze", "", parseEther("1"), 0n, 0n]);
+    await campaign.write.addTier(["Silver", "", parseEther("2"), 0n, 0n]);
+    await campaign.write.addTier(["Gold", "", parseEther("3"), 0n, 0n]);
+
+    return { campaign };
+  }
+
+  describe("fund", function () {
+    it("records the contribution and emits FundReceived", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.fund([1n], { value: parseEther("2"), account: backer.account }),
+        campaign,
+        "FundReceived",
+        [getAddress(backer.account.address), parseEther("2"), 1n],
+      );
+
+      const [, , backers] = await campaign.read.tiers([1n]);
+      assert.equal(backers, 1n);
+      assert.equal(await campaign.read.backers([backer.account.address]), parseEther("2"));
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 1n]), true);
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 0n]), false);
+      assert.equal(await campaign.read.getContractBalance(), parseEther("2"));
+    });
+
+    it("rejects a tier index that does not exist", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([3n], { value: parseEther("1"), account: backer.account }),
+        campaign,
+        "InvalidTier",
+      );
+    });
+
+    it("rejects an amount that does not match the tier", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: parseEther("1.5"), account: backer.account }),
+        campaign,
+        "IncorrectAmount",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: 0n, account: backer.account }),
+        campaign,
+        "IncorrectAmount",
+      );
+    });
+
+    it("adds up repeated contributions from the same backer", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+
+      assert.equal(await campaign.read.backers([backer.account.address]), parseEther("3"));
+    });
+  });
+
+  describe("donate", function () {
+    it("accepts any amount and tracks it apart from tier funding", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.donate({ value: parseEther("0.3"), account: backer.account }),
+        campaign,
+        "DonationReceived",
+        [getAddress(backer.account.address), parseEther("0.3")],
+      );
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+
+      assert.equal(await campaign.read.backers([backer.account.address]), parseEther("1.3"));
+      assert.equal(await campaign.read.donations([backer.account.address]), parseEther("0.3"));
+      assert.equal(await campaign.read.totalDonated(), parseEther("0.3"));
+      assert.equal(await campaign.read.totalTiered(), parseEther("1"));
+    });
+
+    it("funds a campaign that has no tiers and counts towards the goal", async function () {
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Tip Jar",
+        "No rewards",
+        parseEther("1"),
+        0n,
+        await inDays(30),
+        zeroAddress,
+        false,
+        0n,
+        [],
+        [],
+      ]);
+
+      await campaign.write.donate({ value: parseEther("1"), account: backer.account });
+      assert.equal(await campaign.read.state(), State.Successful);
+    });
+
+    it("enforces the owner's minimum donation", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: 0n, account: backer.account }),
+        campaign,
+        "InvalidAmount",
+      );
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.setMinDonation([parseEther("0.1")]),
+        campaign,
+        "MinDonationUpdated",
+        [parseEther("0.1")],
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("0.05"), account: backer.account }),
+        campaign,
+        "DonationBelowMinimum",
+      );
+      await campaign.write.donate({ value: parseEther("0.1"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.setMinDonation([0n], { account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+    });
+
+    it("is refunded together with tier funding", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.donate({ value: parseEther("0.5"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.donate({ value: parseEther("0.2"), account: otherBacker.account });
+      await networkHelpers.time.increase(31 * DAY);
+
+      await campaign.write.refund({ account: backer.account });
+      assert.equal(await campaign.read.pendingWithdrawals([backer.account.address]), parseEther("2.5"));
+      assert.equal(await campaign.read.donations([backer.account.address]), 0n);
+      assert.equal(await campaign.read.totalDonated(), parseEther("0.2"));
+      assert.equal(await campaign.read.totalTiered(), 0n);
+    });
+
+    it("is closed once the campaign is paused or settled", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.togglePause();
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("1"), account: backer.account }),
+        campaign,
+        "ContractPaused",
+      );
+      await campaign.write.togglePause();
+
+      await campaign.write.donate({ value: parseEther("5"), account: backer.account });
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("1"), account: backer.account }),
+        campaign,
+        "CampaignNotActive",
+      );
+    });
+  });
+
+  describe("campaign state", function () {
+    it("turns Successful as soon as the goal is reached before the deadline", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      assert.equal(await campaign.read.state(), State.Active);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.fund([1n], { value: parseEther("2"), account: otherBacker.account }),
+        campaign,
+        "CampaignStateChanged",
+        [State.Successful],
+      );
+      assert.equal(await campaign.read.state(), State.Successful);
+    });
+
+    it("stays Active below the goal until the deadline passes", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await networkHelpers.time.increase(29 * DAY);
+
+      assert.equal(await campaign.read.state(), State.Active);
+      assert.equal(await campaign.read.getCampaignStatus(), State.Active);
+    });
+
+    it("fails once the deadline passes below the goal", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await networkHelpers.time.increase(31 * DAY);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.refund({ account: backer.account }),
+        campaign,
+        "CampaignStateChanged",
+        [State.Failed],
+      );
+      assert.equal(await campaign.read.state(), State.Failed);
+    });
+
+    it("no longer accepts funds once it has settled", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: parseEther("1"), account: otherBacker.account }),
+        campaign,
+        "CampaignNotActive",
+      );
+    });
+
+    it("moves the deadline to a later timestamp", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+      const newDeadline = (await campaign.read.deadline()) + 90n * 60n;
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.extendDeadline([newDeadline]),
+        campaign,
+        "DeadlineExtended",
+        [newDeadline],
+      );
+      assert.equal(await campaign.read.deadline(), newDeadline);
+    });
+
+    it("only extends the deadline forwards and within the maximum duration", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+      const deadline = await campaign.read.deadline();
+      const startTime = await campaign.read.startTime();
+
+      await viem.assertions.revertWithCustomError(campaign.write.extendDeadline([deadline]), campaign, "DeadlineNotLater");
+      await viem.assertions.revertWithCustomError(
+        campaign.write.extendDeadline([startTime + 366n * BigInt(DAY)]),
+        campaign,
+        "DeadlineTooFar",
+      );
+    });
+
+    it("accepts deadlines between one hour and a year after the start", async function () {
+      const flash = await viem.deployContract("CrowdFunding", [
+        owner.account.address, "Flash", "Two hours", parseEther("1"), 0n, await inDays(0) + 2n * 3600n, zeroAddress, false, 0n, [], [],
+      ]);
+      await flash.write.donate({ value: parseEther("1"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), 0n, await inDays(0), zeroAddress, false, 0n, [], []]),
+        flash,
+        "DeadlineTooSoon",
+      );
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), 0n, await inDays(366), zeroAddress, false, 0n, [], []]),
+        flash,
+        "DeadlineTooFar",
+      );
+    });
+  });
+
+  describe("scheduled launch", function () {
+    // Same campaign, launching a week after deployment
+    async function deployUpcomingCampaign() {
+      const startTime = BigInt(await networkHelpers.time.latest()) + 7n * BigInt(DAY);
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Solar Roof",
+        "Panels for the community hall",
+        parseEther("5"),
+        startTime,
+        startTime + 30n * BigInt(DAY),
+        zeroAddress,
+        false,
+        0n,
+        [],
+        [],
+      ]);
+      await campaign.write.addTier(["Bronze", "", parseEther("1"), 0n, 0n]);
+
+      return { campaign, startTime };
+    }
+
+    it("records the start time and deadline", async function () {
+      const { campaign, startTime } = await networkHelpers.loadFixture(deployUpcomingCampaign);
+
+      assert.equal(await campaign.read.startTime(), startTime);
+      assert.equal(await campaign.read.deadline(), startTime + 30n * BigInt(DAY));
+    });
+
+    it("blocks funding and donations until the start time", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployUpcomingCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: parseEther("1"), account: backer.account }),
+        campaign,
+        "CampaignNotStarted",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("1"), account: backer.account }),
+        campaign,
+        "CampaignNotStarted",
+      );
+
+      await networkHelpers.time.increase(7 * DAY);
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      assert.equal(await campaign.read.totalTiered(), parseEther("1"));
+    });
+
+    it("lets the owner prepare tiers before launch", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployUpcomingCampaign);
+
+      await campaign.write.addTier(["Silver", "", parseEther("2"), 0n, 0n]);
+      await campaign.write.updateTier([0n, "Bronze Plus", parseEther("1.5")]);
+
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(tiers.map((tier) => tier.name), ["Bronze Plus", "Silver"]);
+    });
+
+    it("rejects a start time in the past", async function () {
+      // Any deployed campaign carries the ABI that decodes the constructor's errors
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      const past = BigInt(await networkHelpers.time.latest()) - 1n;
+
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), past, past + 30n * BigInt(DAY), zeroAddress, false, 0n, [], []]),
+        campaign,
+        "StartTimeInPast",
+      );
+    });
+  });
+
+  describe("funding policy", function () {
+    // 5 ETH goal that keeps raising until the deadline, up to a 10 ETH hard cap
+    async function deployOpenEndedCampaign() {
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Solar Roof",
+        "Panels for the community hall",
+        parseEther("5"),
+        0n,
+        await inDays(30),
+        zeroAddress,
+        true,
+        parseEther("10"),
+        [],
+        [],
+      ]);
+
+      return { campaign };
+    }
+
+    it("keeps funding past the goal until the deadline", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployOpenEndedCampaign);
+
+      await campaign.write.donate({ value: parseEther("6"), account: backer.account });
+      await campaign.write.donate({ value: parseEther("1"), account: otherBacker.account });
+      assert.equal(await campaign.read.state(), State.Active);
+      assert.equal(await campaign.read.getCampaignStatus(), State.Active);
+
+      await networkHelpers.time.increase(31 * DAY);
+      assert.equal(await campaign.read.getCampaignStatus(), State.Successful);
+      await viem.assertions.emitWithArgs(
+        campaign.write.withdraw(),
+        campaign,
+        "FundsWithdrawn",
+        [getAddress(owner.account.address), parseEther("7")],
+      );
+    });
+
+    it("closes at the hard cap and rejects contributions past it", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployOpenEndedCampaign);
+
+      await campaign.write.donate({ value: parseEther("9"), account: backer.account });
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("2"), account: otherBacker.account }),
+        campaign,
+        "ExceedsHardCap",
+      );
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.donate({ value: parseEther("1"), account: otherBacker.account }),
+        campaign,
+        "CampaignStateChanged",
+        [State.Successful],
+      );
+    });
+
+    it("only accepts a hard cap at or above the goal on campaigns funding until the deadline", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("5"), 0n, await inDays(30), zeroAddress, false, parseEther("10"), [], []]),
+        campaign,
+        "InvalidHardCap",
+      );
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("5"), 0n, await inDays(30), zeroAddress, true, parseEther("4"), [], []]),
+        campaign,
+        "InvalidHardCap",
+      );
+    });
+
+    it("announces stretch goals as the amount raised crosses them", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployOpenEndedCampaign);
+
+      await campaign.write.addStretchGoal([parseEther("7")]);
+      await campaign.write.addStretchGoal([parseEther("9")]);
+      assert.deepEqual(await campaign.read.getStretchGoals(), [parseEther("7"), parseEther("9")]);
+
+      await campaign.write.donate({ value: parseEther("6"), account: backer.account });
+      assert.equal(await campaign.read.stretchGoalsReached(), 0n);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.donate({ value: parseEther("2"), account: otherBacker.account }),
+        campaign,
+        "StretchGoalReached",
+        [0n, parseEther("7")],
+      );
+      assert.equal(await campaign.read.stretchGoalsReached(), 1n);
+      assert.equal(await campaign.read.state(), State.Active);
+    });
+
+    it("only adds ascending stretch goals above the goal and within the hard cap", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployOpenEndedCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.addStretchGoal([parseEther("5")]), campaign, "StretchGoalTooLow");
+      await viem.assertions.emitWithArgs(
+        campaign.write.addStretchGoal([parseEther("7")]),
+        campaign,
+        "StretchGoalAdded",
+        [0n, parseEther("7")],
+      );
+      await viem.assertions.revertWithCustomError(campaign.write.addStretchGoal([parseEther("6")]), campaign, "StretchGoalTooLow");
+      await viem.assertions.revertWithCustomError(campaign.write.addStretchGoal([parseEther("11")]), campaign, "StretchGoalAboveHardCap");
+      await viem.assertions.revertWithCustomError(
+        campaign.write.addStretchGoal([parseEther("8")], { account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateCampaignDetails(["Solar Roof", "Panels", parseEther("8")]),
+        campaign,
+        "GoalAboveStretchGoal",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateCampaignDetails(["Solar Roof", "Panels", parseEther("11")]),
+        campaign,
+        "GoalAboveHardCap",
+      );
+    });
+
+    it("has no stretch goals on campaigns that close at their goal", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.addStretchGoal([parseEther("7")]), campaign, "ClosesAtGoal");
+    });
+  });
+
+  describe("withdraw", function () {
+    it("only lets the owner withdraw a successful campaign", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.withdraw(), campaign, "CampaignNotSuccessful");
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: otherBacker.account });
+      await campaign.write.fund([0n], { value: parseEther("1"), account: otherBacker.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.withdraw({ account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+
+      await campaign.write.withdraw();
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("5"));
+      assert.equal(await campaign.read.getContractBalance(), 0n);
+
+      await viem.assertions.balancesHaveChanged(campaign.write.withdrawPayments(), [
+        { address: owner.account.address, amount: parseEther("5") },
+        { address: campaign.address, amount: -parseEther("5") },
+      ]);
+    });
+
+    it("reverts when there is nothing left to withdraw", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.withdraw();
+
+      await viem.assertions.revertWithCustomError(campaign.write.withdraw(), campaign, "NoFundsAvailable");
+    });
+  });
+
+  describe("milestones", function () {
+    // Same 5 ETH campaign, paid out 30% / 70% and funded 3 ETH by backer, 2 ETH by otherBacker
+    async function deployFundedMilestoneCampaign() {
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Solar Roof",
+        "Panels for the community hall",
+        parseEther("5"),
+        0n,
+        await inDays(30),
+        zeroAddress,
+        false,
+        0n,
+        ["Prototype", "Installation"],
+        [30n, 70n],
+      ]);
+      await campaign.write.addTier(["Bronze", "", parseEther("1"), 0n, 0n]);
+      await campaign.write.addTier(["Silver", "", parseEther("2"), 0n, 0n]);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: otherBacker.account });
+
+      return { campaign };
+    }
+
+    it("validates the milestone split at deployment", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), 0n, await inDays(30), zeroAddress, false, 0n, ["Only"], [50n]]),
+        campaign,
+        "InvalidMilestones",
+      );
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), 0n, await inDays(30), zeroAddress, false, 0n, ["One", "Two"], [100n]]),
+        campaign,
+        "InvalidMilestones",
+      );
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", parseEther("1"), 0n, await inDays(30), zeroAddress, false, 0n, ["One", "Two"], [100n, 0n]]),
+        campaign,
+        "InvalidMilestones",
+      );
+    });
+
+    it("replaces withdraw with approved releases", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployFundedMilestoneCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.withdraw(), campaign, "ReleasedByMilestone");
+      await viem.assertions.revertWithCustomError(campaign.write.releaseMilestone(), campaign, "MilestoneNotApproved");
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.approveMilestone({ account: backer.account }),
+        campaign,
+        "MilestoneApproved",
+        [0n, getAddress(backer.account.address), parseEther("3")],
+      );
+      await viem.assertions.revertWithCustomError(campaign.write.approveMilestone({ account: backer.account }), campaign, "AlreadyApproved");
+
+      await viem.assertions.emitWithArgs(campaign.write.releaseMilestone(), campaign, "MilestoneReleased", [
+        0n,
+        parseEther("1.5"),
+      ]);
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("1.5"));
+      assert.equal(await campaign.read.currentMilestone(), 1n);
+
+      // Each milestone needs its own majority
+      await viem.assertions.revertWithCustomError(campaign.write.releaseMilestone(), campaign, "MilestoneNotApproved");
+      await campaign.write.approveMilestone({ account: backer.account });
+      await campaign.write.releaseMilestone();
+
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("5"));
+      assert.equal(await campaign.read.getContractBalance(), 0n);
+      const milestones = await campaign.read.getMilestones();
+      assert.deepEqual(
+        milestones.map((milestone) => [milestone.title, milestone.released]),
+        [["Prototype", true], ["Installation", true]],
+      );
+      await viem.assertions.revertWithCustomError(campaign.write.releaseMilestone(), campaign, "NoMilestonePending");
+    });
+
+    it("needs more than half of the raised funds to approve", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployFundedMilestoneCampaign);
+
+      await campaign.write.approveMilestone({ account: otherBacker.account });
+      await viem.assertions.revertWithCustomError(campaign.write.releaseMilestone(), campaign, "MilestoneNotApproved");
+
+      const [, , approvals] = await campaign.read.milestones([0n]);
+      assert.equal(approvals, parseEther("2"));
+    });
+
+    it("only lets backers vote and the owner release once the campaign succeeded", async function () {
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Solar Roof",
+        "Panels for the community hall",
+        parseEther("5"),
+        0n,
+        await inDays(30),
+        zeroAddress,
+        false,
+        0n,
+        ["Everything"],
+        [100n],
+      ]);
+      await campaign.write.donate({ value: parseEther("1"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.approveMilestone({ account: backer.account }),
+        campaign,
+        "CampaignNotSuccessful",
+      );
+
+      await campaign.write.donate({ value: parseEther("4"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.approveMilestone({ account: otherBacker.account }), campaign, "NoContribution");
+      await campaign.write.approveMilestone({ account: backer.account });
+      await viem.assertions.revertWithCustomError(
+        campaign.write.releaseMilestone({ account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+    });
+
+    it("drops a refunded backer's approval", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployFundedMilestoneCampaign);
+
+      await campaign.write.approveMilestone({ account: backer.account });
+      await campaign.write.requestEmergencyWithdraw();
+      await campaign.write.refund({ account: backer.account });
+      await campaign.write.cancelEmergencyWithdraw();
+
+      const [, , approvals] = await campaign.read.milestones([0n]);
+      assert.equal(approvals, 0n);
+      await viem.assertions.revertWithCustomError(campaign.write.releaseMilestone(), campaign, "MilestoneNotApproved");
+    });
+
+    it("cannot be taken out of milestone release by anyone else deleting the campaign", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployFundedMilestoneCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.deleteCampaign({ account: backer.account }), campaign, "NotOwner");
+      assert.equal(await campaign.read.state(), State.Successful);
+
+      await campaign.write.approveMilestone({ account: backer.account });
+      await campaign.write.releaseMilestone();
+      assert.equal(await campaign.read.currentMilestone(), 1n);
+    });
+  });
+
+  describe("refund", function () {
+    it("returns the full contribution of a failed campaign once", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await networkHelpers.time.increase(31 * DAY);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.refund({ account: backer.account }),
+        campaign,
+        "RefundIssued",
+        [getAddress(backer.account.address), parseEther("3")],
+      );
+      assert.equal(await campaign.read.backers([backer.account.address]), 0n);
+      assert.equal(await campaign.read.pendingWithdrawals([backer.account.address]), parseEther("3"));
+
+      await viem.assertions.balancesHaveChanged(campaign.write.withdrawPayments({ account: backer.account }), [
+        { address: backer.account.address, amount: parseEther("3") },
+      ]);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.refund({ account: backer.account }),
+        campaign,
+        "NoContribution",
+      );
+    });
+
+    it("rejects accounts that never contributed", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+      await networkHelpers.time.increase(31 * DAY);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.refund({ account: otherBacker.account }),
+        campaign,
+        "NoContribution",
+      );
+    });
+
+    it("is only available once the campaign has failed", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.refund({ account: backer.account }), campaign, "RefundNotAvailable");
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: otherBacker.account });
+      await campaign.write.fund([0n], { value: parseEther("1"), account: otherBacker.account });
+      assert.equal(await campaign.read.state(), State.Successful);
+      await viem.assertions.revertWithCustomError(campaign.write.refund({ account: backer.account }), campaign, "RefundNotAvailable");
+    });
+
+    it("clears the backer's tiers and frees their backer slots", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.fund([0n], { value: parseEther("1"), account: otherBacker.account });
+      await networkHelpers.time.increase(31 * DAY);
+      assert.equal(await campaign.read.getCampaignStatus(), State.Failed);
+
+      await campaign.write.refund({ account: backer.account });
+
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(
+        tiers.map((tier) => tier.backers),
+        [1n, 0n, 0n],
+      );
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 0n]), false);
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 1n]), false);
+      assert.equal(await campaign.read.hasFundedTier([otherBacker.account.address, 0n]), true);
+    });
+  });
+
+  describe("tiers", function () {
+    it("removes a tier by moving the last one into its slot", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(campaign.write.removeTier([0n]), campaign, "TierRemoved", [0n]);
+
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(
+        tiers.map((tier) => tier.name),
+        ["Gold", "Silver"],
+      );
+    });
+
+    it("pops the last tier without reordering the rest", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.removeTier([2n]);
+
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(
+        tiers.map((tier) => tier.name),
+        ["Bronze", "Silver"],
+      );
+    });
+
+    it("counts each backer once per tier and tracks the amount they put in", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+
+      const [bronze] = await campaign.read.getTiers();
+      assert.equal(bronze.backers, 1n);
+      assert.equal(await campaign.read.getTierContribution([backer.account.address, 0n]), parseEther("2"));
+      await viem.assertions.revertWithCustomError(
+        campaign.read.getTierContribution([backer.account.address, 3n]),
+        campaign,
+        "InvalidTier",
+      );
+    });
+
+    it("refuses to remove a tier that has backers", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.removeTier([1n]), campaign, "TierHasBackers");
+    });
+
+    it("keeps contributions attached to their tier when another tier is removed", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      // Gold moves from index 2 into Bronze's slot
+      await campaign.write.removeTier([0n]);
+
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 0n]), true);
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 1n]), false);
+      assert.equal(await campaign.read.getTierContribution([backer.account.address, 0n]), parseEther("3"));
+
+      await campaign.write.addTier(["Platinum", "", parseEther("4"), 0n, 0n]);
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(
+        tiers.map((tier) => [tier.name, tier.id]),
+        [["Gold", 2n], ["Silver", 1n], ["Platinum", 3n]],
+      );
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 2n]), false);
+    });
+
+    it("updates an unbacked tier in place and emits TierUpdated", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.updateTier([1n, "Silver Plus", parseEther("2.5")]),
+        campaign,
+        "TierUpdated",
+        [1n, "Silver Plus", parseEther("2.5")],
+      );
+
+      const tiers = await campaign.read.getTiers();
+      assert.deepEqual(
+        tiers.map((tier) => [tier.name, tier.amount, tier.id]),
+        [["Bronze", parseEther("1"), 0n], ["Silver Plus", parseEther("2.5"), 1n], ["Gold", parseEther("3"), 2n]],
+      );
+    });
+
+    it("only allows renaming a tier that has backers", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateTier([0n, "Bronze", parseEther("0.5")]),
+        campaign,
+        "TierHasBackers",
+      );
+      await campaign.write.updateTier([0n, "Supporter", parseEther("1")]);
+
+      const [name, amount, backers] = await campaign.read.tiers([0n]);
+      assert.deepEqual([name, amount, backers], ["Supporter", parseEther("1"), 1n]);
+      assert.equal(await campaign.read.hasFundedTier([backer.account.address, 0n]), true);
+    });
+
+    it("rejects out-of-range indexes, zero amounts and non-owners", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.removeTier([3n]), campaign, "InvalidTier");
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateTier([3n, "Platinum", parseEther("4")]),
+        campaign,
+        "InvalidTier",
+      );
+      await viem.assertions.revertWithCustomError(campaign.write.addTier(["Free", "", 0n, 0n, 0n]), campaign, "InvalidAmount");
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateTier([0n, "Free", 0n]),
+        campaign,
+        "InvalidAmount",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.addTier(["Platinum", "", parseEther("10"), 0n, 0n], { account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.removeTier([0n], { account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateTier([0n, "Bronze", parseEther("1")], { account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+    });
+  });
+
+  describe("tier supply and metadata", function () {
+    it("stores the reward description, cap and delivery date", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+      const delivery = BigInt(await networkHelpers.time.latest()) + BigInt(90 * DAY);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.addTier(["Founder", "Signed panel", parseEther("4"), 50n, delivery]),
+        campaign,
+        "TierAdded",
+        ["Founder", parseEther("4"), "Signed panel", 50n, delivery],
+      );
+
+      const founder = await campaign.read.tiers([3n]);
+      assert.deepEqual(founder, ["Founder", parseEther("4"), 0n, 3n, "Signed panel", 50n, delivery]);
+    });
+
+    it("stops new backers once the cap is reached but lets existing ones add more", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.addTier(["Early Bird", "", parseEther("0.5"), 1n, 0n]);
+      await campaign.write.fund([3n], { value: parseEther("0.5"), account: backer.account });
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([3n], { value: parseEther("0.5"), account: otherBacker.account }),
+        campaign,
+        "TierSoldOut",
+      );
+      await campaign.write.fund([3n], { value: parseEther("0.5"), account: backer.account });
+
+      const tiers = await campaign.read.getTiers();
+      assert.equal(tiers[3].backers, 1n);
+    });
+
+    it("frees a capped slot when its backer is refunded", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.addTier(["Early Bird", "", parseEther("0.5"), 1n, 0n]);
+      await campaign.write.fund([3n], { value: parseEther("0.5"), account: backer.account });
+      await campaign.write.fund([0n], { value: parseEther("1"), account: otherBacker.account });
+      await campaign.write.requestEmergencyWithdraw();
+      await campaign.write.refund({ account: backer.account });
+      await campaign.write.cancelEmergencyWithdraw();
+
+      await campaign.write.fund([3n], { value: parseEther("0.5"), account: otherBacker.account });
+    });
+
+    it("rejects a delivery date in the past", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+      const now = BigInt(await networkHelpers.time.latest());
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.addTier(["Late", "", parseEther("1"), 0n, now]),
+        campaign,
+        "DeliveryDateInPast",
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks funding while paused and resumes afterwards", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(campaign.write.togglePause(), campaign, "CampaignPaused", [true]);
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: parseEther("1"), account: backer.account }),
+        campaign,
+        "ContractPaused",
+      );
+
+      await campaign.write.togglePause();
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+    });
+
+    it("can only be toggled by the owner", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.togglePause({ account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+    });
+  });
+
+  describe("delete", function () {
+    it("marks the campaign failed and blocks further changes", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.emitWithArgs(
+        campaign.write.deleteCampaign(),
+        campaign,
+        "CampaignDeleted",
+        [getAddress(owner.account.address)],
+      );
+
+      assert.equal(await campaign.read.deleted(), true);
+      assert.equal(await campaign.read.state(), State.Failed);
+      assert.equal(await campaign.read.getCampaignStatus(), State.Failed);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: parseEther("1"), account: backer.account }),
+        campaign,
+        "CampaignNotActive",
+      );
+      await viem.assertions.revertWithCustomError(campaign.write.addTier(["Late", "", parseEther("1"), 0n, 0n]), campaign, "CampaignIsDeleted");
+      await viem.assertions.revertWithCustomError(campaign.write.deleteCampaign(), campaign, "CampaignIsDeleted");
+      await viem.assertions.revertWithCustomError(campaign.write.withdraw(), campaign, "CampaignIsDeleted");
+    });
+
+    it("lets backers of a deleted campaign claim refunds", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.deleteCampaign();
+
+      await campaign.write.refund({ account: backer.account });
+      assert.equal(await campaign.read.pendingWithdrawals([backer.account.address]), parseEther("2"));
+    });
+
+    it("cannot be used by anyone else to reopen refunds on a successful campaign", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: otherBacker.account });
+      assert.equal(await campaign.read.state(), State.Successful);
+
+      await viem.assertions.revertWithCustomError(campaign.write.deleteCampaign({ account: backer.account }), campaign, "NotOwner");
+      assert.equal(await campaign.read.deleted(), false);
+      assert.equal(await campaign.read.state(), State.Successful);
+      await viem.assertions.revertWithCustomError(campaign.write.refund({ account: backer.account }), campaign, "RefundNotAvailable");
+    });
+  });
+
+  describe("pull payments", function () {
+    async function deployCampaignWithWallet() {
+      const { campaign } = await deployCampaign();
+      const wallet = await viem.deployContract("ContractWallet", [campaign.address]);
+      return { campaign, wallet };
+    }
+
+    it("credits payouts instead of sending them", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: backer.account });
+      await campaign.write.withdraw();
+
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("5"));
+      assert.equal(await campaign.read.totalPendingWithdrawals(), parseEther("5"));
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.withdrawPayments(),
+        campaign,
+        "PaymentWithdrawn",
+        [getAddress(owner.account.address), parseEther("5")],
+      );
+      assert.equal(await campaign.read.totalPendingWithdrawals(), 0n);
+    });
+
+    it("rejects callers with nothing to withdraw", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.withdrawPayments({ account: backer.account }),
+        campaign,
+        "NoPendingPayment",
+      );
+    });
+
+    it("pays out to contract wallets that need more than the transfer stipend", async function () {
+      const { campaign, wallet } = await networkHelpers.loadFixture(deployCampaignWithWallet);
+
+      await wallet.write.fund([1n], { value: parseEther("2") });
+      await networkHelpers.time.increase(31 * DAY);
+      await wallet.write.refund();
+
+      await viem.assertions.balancesHaveChanged(wallet.write.withdrawPayments(), [
+        { address: wallet.address, amount: parseEther("2") },
+        { address: campaign.address, amount: -parseEther("2") },
+      ]);
+      assert.equal(await wallet.read.received(), parseEther("2"));
+    });
+
+    it("blocks reentrant withdrawals", async function () {
+      const { campaign, wallet } = await networkHelpers.loadFixture(deployCampaignWithWallet);
+
+      await wallet.write.fund([1n], { value: parseEther("2") });
+      await networkHelpers.time.increase(31 * DAY);
+      await wallet.write.refund();
+      await wallet.write.setReenter([true]);
+
+      await viem.assertions.revertWithCustomError(wallet.write.withdrawPayments(), campaign, "TransferFailed");
+      assert.equal(await campaign.read.pendingWithdrawals([wallet.address]), parseEther("2"));
+    });
+  });
+
+  describe("emergency withdraw", function () {
+    const DELAY = 3 * DAY;
+
+    it("only executes after the public delay", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.executeEmergencyWithdraw(), campaign, "NoEmergencyWithdrawRequested");
+
+      await viem.assertions.emit(campaign.write.requestEmergencyWithdraw(), campaign, "EmergencyWithdrawRequested");
+      const availableAt = await campaign.read.emergencyWithdrawAvailableAt();
+      assert.equal(availableAt, BigInt(await networkHelpers.time.latest()) + BigInt(DELAY));
+      await viem.assertions.revertWithCustomError(
+        campaign.write.requestEmergencyWithdraw(),
+        campaign,
+        "EmergencyWithdrawAlreadyRequested",
+      );
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        campaign.write.executeEmergencyWithdraw(),
+        campaign,
+        "EmergencyWithdrawLocked",
+        [availableAt],
+      );
+
+      await networkHelpers.time.increase(DELAY);
+      await viem.assertions.emitWithArgs(
+        campaign.write.executeEmergencyWithdraw(),
+        campaign,
+        "EmergencyWithdraw",
+        [getAddress(owner.account.address), parseEther("1")],
+      );
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("1"));
+      assert.equal(await campaign.read.emergencyWithdrawAvailableAt(), 0n);
+    });
+
+    it("lets backers refund while a request is pending", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await campaign.write.fund([1n], { value: parseEther("2"), account: otherBacker.account });
+      await campaign.write.requestEmergencyWithdraw();
+
+      await campaign.write.refund({ account: backer.account });
+      assert.equal(await campaign.read.pendingWithdrawals([backer.account.address]), parseEther("1"));
+
+      // Only what backers left behind goes to the owner
+      await networkHelpers.time.increase(DELAY);
+      await campaign.write.executeEmergencyWithdraw();
+      assert.equal(await campaign.read.pendingWithdrawals([owner.account.address]), parseEther("2"));
+
+      await viem.assertions.revertWithCustomError(campaign.write.refund({ account: otherBacker.account }), campaign, "RefundNotAvailable");
+    });
+
+    it("can be cancelled, which closes the refund window again", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.cancelEmergencyWithdraw(), campaign, "NoEmergencyWithdrawRequested");
+
+      await campaign.write.requestEmergencyWithdraw();
+      await viem.assertions.emitWithArgs(
+        campaign.write.cancelEmergencyWithdraw(),
+        campaign,
+        "EmergencyWithdrawCancelled",
+        [getAddress(owner.account.address)],
+      );
+
+      await networkHelpers.time.increase(DELAY);
+      await viem.assertions.revertWithCustomError(campaign.write.executeEmergencyWithdraw(), campaign, "NoEmergencyWithdrawRequested");
+      await viem.assertions.revertWithCustomError(campaign.write.refund({ account: backer.account }), campaign, "RefundNotAvailable");
+    });
+
+    it("is restricted to the owner and needs funds to withdraw", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(campaign.write.requestEmergencyWithdraw(), campaign, "NoFundsAvailable");
+
+      await campaign.write.fund([0n], { value: parseEther("1"), account: backer.account });
+      await viem.assertions.revertWithCustomError(
+        campaign.write.requestEmergencyWithdraw({ account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+      await campaign.write.requestEmergencyWithdraw();
+      await viem.assertions.revertWithCustomError(
+        campaign.write.cancelEmergencyWithdraw({ account: backer.account }),
+        campaign,
+        "NotOwner",
+      );
+    });
+  });
+
+  describe("updateCampaignDetails", function () {
+    it("updates the details while active and rejects a zero goal", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.emitWithArgs(
+        campaign.write.updateCampaignDetails(["Bigger Roof", "More panels", parseEther("8")]),
+        campaign,
+        "CampaignDetailsUpdated",
+        ["Bigger Roof", "More panels", parseEther("8")],
+      );
+      assert.equal(await campaign.read.goal(), parseEther("8"));
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.updateCampaignDetails(["Bigger Roof", "More panels", 0n]),
+        campaign,
+        "InvalidGoal",
+      );
+    });
+  });
+
+  describe("token campaigns", function () {
+    const usd = (amount: string) => parseUnits(amount, 6);
+
+    // 500 TUSD goal with Supporter 100 and Patron 200 tiers; both backers hold 1000 TUSD
+    async function deployTokenCampaign() {
+      const token = await viem.deployContract("MockERC20", ["Test USD", "TUSD", 6]);
+      const campaign = await viem.deployContract("CrowdFunding", [
+        owner.account.address,
+        "Solar Roof",
+        "Panels for the community hall",
+        usd("500"),
+        0n,
+        await inDays(30),
+        token.address,
+        false,
+        0n,
+        [],
+        [],
+      ]);
+      await campaign.write.addTier(["Supporter", "", usd("100"), 0n, 0n]);
+      await campaign.write.addTier(["Patron", "", usd("200"), 0n, 0n]);
+
+      for (const account of [backer, otherBacker]) {
+        await token.write.mint([account.account.address, usd("1000")]);
+        await token.write.approve([campaign.address, usd("1000")], { account: account.account });
+      }
+
+      return { token, campaign };
+    }
+
+    it("pulls the tier amount and donations through transferFrom", async function () {
+      const { token, campaign } = await networkHelpers.loadFixture(deployTokenCampaign);
+
+      assert.equal(await campaign.read.token(), getAddress(token.address));
+      await viem.assertions.emitWithArgs(
+        campaign.write.fund([1n], { account: backer.account }),
+        campaign,
+        "FundReceived",
+        [getAddress(backer.account.address), usd("200"), 1n],
+      );
+      await viem.assertions.emitWithArgs(
+        campaign.write.donateToken([usd("50")], { account: backer.account }),
+        campaign,
+        "DonationReceived",
+        [getAddress(backer.account.address), usd("50")],
+      );
+
+      assert.equal(await token.read.balanceOf([backer.account.address]), usd("750"));
+      assert.equal(await token.read.balanceOf([campaign.address]), usd("250"));
+      assert.equal(await campaign.read.getContractBalance(), usd("250"));
+      assert.equal(await campaign.read.backers([backer.account.address]), usd("250"));
+    });
+
+    it("pays refunds and withdrawals out in the token", async function () {
+      const { token, campaign } = await networkHelpers.loadFixture(deployTokenCampaign);
+
+      await campaign.write.fund([0n], { account: backer.account });
+      await networkHelpers.time.increase(31 * DAY);
+      await campaign.write.refund({ account: backer.account });
+      await campaign.write.withdrawPayments({ account: backer.account });
+      assert.equal(await token.read.balanceOf([backer.account.address]), usd("1000"));
+
+      const { token: fundedToken, campaign: funded } = await deployTokenCampaign();
+      await funded.write.fund([1n], { account: backer.account });
+      await funded.write.fund([1n], { account: otherBacker.account });
+      await funded.write.fund([0n], { account: otherBacker.account });
+      assert.equal(await funded.read.state(), State.Successful);
+
+      await funded.write.withdraw();
+      await funded.write.withdrawPayments();
+      assert.equal(await fundedToken.read.balanceOf([owner.account.address]), usd("500"));
+      assert.equal(await funded.read.getContractBalance(), 0n);
+    });
+
+    it("keeps native currency and tokens apart", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployTokenCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        campaign.write.fund([0n], { value: usd("100"), account: backer.account }),
+        campaign,
+        "WrongCurrency",
+      );
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donate({ value: parseEther("1"), account: backer.account }),
+        campaign,
+        "WrongCurrency",
+      );
+
+      const { campaign: native } = await deployCampaign();
+      await viem.assertions.revertWithCustomError(
+        native.write.donateToken([usd("1")], { account: backer.account }),
+        native,
+        "WrongCurrency",
+      );
+    });
+
+    it("rejects missing allowances and fee-on-transfer tokens", async function () {
+      const { token, campaign } = await networkHelpers.loadFixture(deployTokenCampaign);
+
+      await token.write.approve([campaign.address, 0n], { account: backer.account });
+      await viem.assertions.revertWithCustomError(campaign.write.fund([0n], { account: backer.account }), campaign, "TransferFailed");
+
+      await token.write.setTransferFee([1n]);
+      await viem.assertions.revertWithCustomError(
+        campaign.write.donateToken([usd("10")], { account: otherBacker.account }),
+        campaign,
+        "UnsupportedToken",
+      );
+    });
+
+    it("requires the token to be a contract", async function () {
+      const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+      await viem.assertions.revertWithCustomError(
+        viem.deployContract("CrowdFunding", [owner.account.address, "A", "B", usd("1"), 0n, await inDays(30), backer.account.address, false, 0n, [], []]),
+        campaign,
+        "TokenNotContract",
+      );
+    });
+  });
+
+  it("reports the funds it holds through getContractBalance", async function () {
+    const { campaign } = await networkHelpers.loadFixture(deployCampaign);
+
+    await campaign.write.fund([2n], { value: parseEther("3"), account: backer.account });
+    assert.equal(
+      await campaign.read.getContractBalance(),
+      await publicClient.getBalance({ address: campaign.address }),
+    );
+
+    // Credited payments still sit in the contract but no longer count towards the campaign
+    await networkHelpers.time.increase(31 * DAY);
+    await campaign.write.refund({ account: backer.account });
+    assert.equal(await campaign.read.getContractBalance(), 0n);
+    assert.equal(await publicClient.getBalance({ address: campaign.address }), parseEther("3"));
+  });
+});
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { network } from "hardhat";
+import { getAddress, parseEther, zeroAddress } from "viem";
+
+const DAY = 24 * 60 * 60;
+
+describe("CrowdFundingFactory", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const [deployer, creator, otherCreator] = await viem.getWalletClients();
+
+  // Absolute deadline the given number of days after the latest block
+  async function inDays(days: number) {
+    return BigInt(await networkHelpers.time.latest()) + BigInt(days * DAY);
+  }
+
+  async function deployFactory() {
+    const factory = await viem.deployContract("CrowdFundingFactory");
+    return { factory };
+  }
+
+  async function deployFactoryWithCampaigns() {
+    const { factory } = await deployFactory();
+
+    await factory.write.createCampaign(["First", "One", parseEther("1"), 0n, await inDays(10), zeroAddress, false, 0n, [], []], { account: creator.account });
+    await factory.write.createCampaign(["Second", "Two", parseEther("2"), 0n, await inDays(20), zeroAddress, false, 0n, [], []], { account: otherCreator.account });
+    await factory.write.createCampaign(["Third", "Three", parseEther("3"), 0n, await inDays(30), zeroAddress, false, 0n, [], []], { account: creator.account });
+
+    return { factory };
+  }
+
+  describe("createCampaign", function () {
+    it("deploys a campaign owned by the caller and registers it", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactory);
+
+      await viem.assertions.emit(
+        factory.write.createCampaign(["Solar Roof", "Panels", parseEther("5"), 0n, await inDays(30), zeroAddress, false, 0n, [], []], { account: creator.account }),
+        factory,
+        "CampaignCreated",
+      );
+
+      const [registered] = await factory.read.getAllCampaigns();
+      assert.equal(registered.owner, getAddress(creator.account.address));
+      assert.equal(registered.name, "Solar Roof");
+
+      const campaign = await viem.getContractAt("CrowdFunding", registered.campaignAddress);
+      assert.equal(await campaign.read.owner(), getAddress(creator.account.address));
+      assert.equal(await campaign.read.goal(), parseEther("5"));
+      assert.equal(await campaign.read.description(), "Panels");
+    });
+
+    it("passes milestones through to the campaign", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactory);
+
+      await factory.write.createCampaign(
+        ["Solar Roof", "Panels", parseEther("5"), 0n, await inDays(30), zeroAddress, false, 0n, ["Prototype", "Installation"], [40n, 60n]],
+        { account: creator.account },
+      );
+
+      const [registered] = await factory.read.getAllCampaigns();
+      const campaign = await viem.getContractAt("CrowdFunding", registered.campaignAddress);
+      const milestones = await campaign.read.getMilestones();
+      assert.deepEqual(
+        milestones.map((milestone) => [milestone.title, milestone.percentage]),
+        [["Prototype", 40n], ["Installation", 60n]],
+      );
+    });
+
+    it("passes the start time through to the campaign", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactory);
+      const startTime = await inDays(1);
+
+      await factory.write.createCampaign(
+        ["Solar Roof", "Panels", parseEther("5"), startTime, startTime + BigInt(30 * DAY), zeroAddress, false, 0n, [], []],
+        { account: creator.account },
+      );
+
+      const [registered] = await factory.read.getAllCampaigns();
+      const campaign = await viem.getContractAt("CrowdFunding", registered.campaignAddress);
+      assert.equal(await campaign.read.startTime(), startTime);
+    });
+
+    it("tracks campaigns per creator", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+
+      const mine = await factory.read.getUserCampaigns([creator.account.address]);
+      assert.deepEqual(
+        mine.map((campaign) => campaign.name),
+        ["First", "Third"],
+      );
+
+      const theirs = await factory.read.getUserCampaigns([otherCreator.account.address]);
+      assert.deepEqual(
+        theirs.map((campaign) => campaign.name),
+        ["Second"],
+      );
+    });
+
+    it("is blocked while the factory is paused", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactory);
+
+      await factory.write.togglePause();
+      await viem.assertions.revertWithCustomError(
+        factory.write.createCampaign(["Paused", "No", parseEther("1"), 0n, await inDays(10), zeroAddress, false, 0n, [], []], { account: creator.account }),
+        factory,
+        "FactoryPaused",
+      );
+
+      await factory.write.togglePause();
+      await factory.write.createCampaign(["Resumed", "Yes", parseEther("1"), 0n, await inDays(10), zeroAddress, false, 0n, [], []], { account: creator.account });
+    });
+
+    it("only lets the factory owner pause it", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactory);
+
+      assert.equal(await factory.read.owner(), getAddress(deployer.account.address));
+      await viem.assertions.revertWithCustomError(factory.write.togglePause({ account: creator.account }), factory, "NotOwner");
+    });
+  });
+
+  describe("pagination", function () {
+    it("returns pages of campaigns in creation order", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+
+      assert.equal(await factory.read.campaignCount(), 3n);
+
+      const firstPage = await factory.read.getCampaignsPaginated([0n, 2n]);
+      assert.deepEqual(
+        firstPage.map((campaign) => campaign.name),
+        ["First", "Second"],
+      );
+
+      const lastPage = await factory.read.getCampaignsPaginated([2n, 2n]);
+      assert.deepEqual(
+        lastPage.map((campaign) => campaign.name),
+        ["Third"],
+      );
+    });
+
+    it("returns an empty page past the end and tolerates huge limits", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+
+      assert.equal((await factory.read.getCampaignsPaginated([3n, 10n])).length, 0);
+      assert.equal((await factory.read.getCampaignsPaginated([1n, 2n ** 256n - 1n])).length, 2);
+    });
+  });
+
+  describe("deleteCampaignFromFactory", function () {
+    it("lets the campaign owner delete their campaign", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+      const [first] = await factory.read.getAllCampaigns();
+
+      await factory.write.deleteCampaignFromFactory([first.campaignAddress], { account: creator.account });
+
+      const campaign = await viem.getContractAt("CrowdFunding", first.campaignAddress);
+      assert.equal(await campaign.read.deleted(), true);
+    });
+
+    it("rejects callers who do not own the campaign", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+      const [first] = await factory.read.getAllCampaigns();
+
+      await viem.assertions.revertWithCustomError(
+        factory.write.deleteCampaignFromFactory([first.campaignAddress], { account: otherCreator.account }),
+        factory,
+        "NotCampaignOwner",
+      );
+      await viem.assertions.revertWithCustomError(
+        factory.write.deleteCampaignFromFactory([first.campaignAddress], { account: deployer.account }),
+        factory,
+        "NotCampaignOwner",
+      );
+    });
+
+    it("rejects addresses the factory did not create", async function () {
+      const { factory } = await networkHelpers.loadFixture(deployFactoryWithCampaigns);
+
+      await viem.assertions.revertWithCustomError(
+        factory.write.deleteCampaignFromFactory([otherCreator.account.address], { account: creator.account }),
+        factory,
+        "CampaignNotFound",
+      );
+    });
+  });
+});
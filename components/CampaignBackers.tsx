@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { web3Service } from '@/lib/web3';
+
+interface ContributionRecord {
+  type: 'fund' | 'refund';
+  backer: string;
+  amount: string;
+  tierIndex: number | null;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+}
+
+interface BackerSummary {
+  backer: string;
+  funded: number;
+  refunded: number;
+  tiers: Set<number>;
+  lastActivity: number;
+}
+
+interface CampaignBackersProps {
+  campaignAddress: string;
+  tiers: Array<{
+    name: string;
+    amount: string;
+  }>;
+  // Currency symbol of the campaign
+  symbol: string;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatTimestamp = (timestamp: number) =>
+  timestamp ? new Date(timestamp * 1000).toLocaleString() : 'Unknown';
+
+const formatAmount = (value: number, symbol: string) => `${parseFloat(value.toFixed(6))} ${symbol}`;
+
+// Group key for donate() contributions, which carry no tier index
+const DONATION_GROUP = -1;
+
+export default function CampaignBackers({ campaignAddress, tiers, symbol }: CampaignBackersProps) {
+  const [records, setRecords] = useState<ContributionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRecords(await web3Service.getContributionHistory(campaignAddress));
+    } catch (err) {
+      console.error('Failed to load contribution history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load contribution history');
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignAddress]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Tier indexes come from the FundReceived event, so a tier removed later shows by number
+  const getTierLabel = (tierIndex: number) => tierIndex === DONATION_GROUP
+    ? 'Custom amount'
+    : tiers[tierIndex]?.name ?? `Tier #${tierIndex + 1}`;
+
+  const backers = Array.from(
+    records.reduce((summaries, record) => {
+      const summary = summaries.get(record.backer) ?? {
+        backer: record.backer,
+        funded: 0,
+        refunded: 0,
+        tiers: new Set<number>(),
+        lastActivity: 0
+      };
+      if (record.type === 'fund') {
+        summary.funded += parseFloat(record.amount);
+        summary.tiers.add(record.tierIndex ?? DONATION_GROUP);
+      } else {
+        summary.refunded += parseFloat(record.amount);
+      }
+      summary.lastActivity = Math.max(summary.lastActivity, record.timestamp);
+      return summaries.set(record.backer, summary);
+    }, new Map<string, BackerSummary>()).values()
+  ).sort((a, b) => (b.funded - b.refunded) - (a.funded - a.refunded));
+
+  const contributionsByTier = records
+    .filter((record) => record.type === 'fund')
+    .reduce((groups, record) => {
+      const group = record.tierIndex ?? DONATION_GROUP;
+      groups.set(group, [...(groups.get(group) ?? []), record]);
+      return groups;
+    }, new Map<number, ContributionRecord[]>());
+
+  const totalFunded = backers.reduce((sum, backer) => sum + backer.funded, 0);
+  const totalRefunded = backers.reduce((sum, backer) => sum + backer.refunded, 0);
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading contribution history...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">{error}</p>
+        <button
+          onClick={loadHistory}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return <div className="text-center py-8 text-gray-500">No one has backed this campaign yet.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Ledger Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-blue-600">Backers</h3>
+          <p className="text-2xl font-bold text-blue-900">{backers.length}</p>
+        </div>
+        <div className="bg-green-50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-green-600">Contributed</h3>
+          <p className="text-2xl font-bold text-green-900">{formatAmount(totalFunded, symbol)}</p>
+        </div>
+        <div className="bg-red-50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium text-red-600">Refunded</h3>
+          <p className="text-2xl font-bold text-red-900">{formatAmount(totalRefunded, symbol)}</p>
+        </div>
+      </div>
+
+      {/* Per-Backer Ledger */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-600 border-b">
+            <tr>
+              <th className="py-2 pr-4 font-medium">Backer</th>
+              <th className="py-2 pr-4 font-medium">Tiers</th>
+              <th className="py-2 pr-4 font-medium text-right">Funded</th>
+              <th className="py-2 pr-4 font-medium text-right">Refunded</th>
+              <th className="py-2 pr-4 font-medium text-right">Net</th>
+              <th className="py-2 font-medium">Last Activity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {backers.map((backer) => (
+              <tr key={backer.backer} className="border-b last:border-0">
+                <td className="py-2 pr-4 font-mono" title={backer.backer}>{shortenAddress(backer.backer)}</td>
+                <td className="py-2 pr-4">{Array.from(backer.tiers).map(getTierLabel).join(', ')}</td>
+                <td className="py-2 pr-4 text-right">{formatAmount(backer.funded, symbol)}</td>
+                <td className="py-2 pr-4 text-right text-red-600">{backer.refunded > 0 ? formatAmount(backer.refunded, symbol) : '-'}</td>
+                <td className="py-2 pr-4 text-right font-semibold">{formatAmount(backer.funded - backer.refunded, symbol)}</td>
+                <td className="py-2 text-gray-600">{formatTimestamp(backer.lastActivity)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Contributions Grouped By Tier */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {Array.from(contributionsByTier.entries())
+          // Donations go after the tiers
+          .sort(([a], [b]) => (a === DONATION_GROUP ? Infinity : a) - (b === DONATION_GROUP ? Infinity : b))
+          .map(([tierIndex, contributions]) => (
+            <div key={tierIndex} className="border-2 border-gray-200 rounded-lg p-4">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-bold text-lg text-gray-900">{getTierLabel(tierIndex)}</h3>
+                <span className="text-sm text-gray-600">{contributions.length} contributions</span>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {contributions.map((contribution) => (
+                  <li key={`${contribution.transactionHash}-${contribution.backer}`} className="flex justify-between gap-2">
+                    <span className="font-mono" title={contribution.backer}>{shortenAddress(contribution.backer)}</span>
+                    <span>{contribution.amount} {symbol}</span>
+                    <span className="text-gray-500">{formatTimestamp(contribution.timestamp)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
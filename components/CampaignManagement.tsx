@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { web3Service } from '@/lib/web3';
 import { useWeb3 } from '@/contexts/Web3Context';
 
@@ -19,6 +19,8 @@ export default function CampaignManagement({
   const [loading, setLoading] = useState(false);
   const [showUpdateForm, setShowUpdateForm] = useState(false);
   const [showTierForm, setShowTierForm] = useState(false);
+  // Unix time a pending emergency withdrawal unlocks; 0 when none is pending
+  const [emergencyAvailableAt, setEmergencyAvailableAt] = useState(0);
   
   // Update form state
   const [updateForm, setUpdateForm] = useState({
@@ -30,9 +32,26 @@ export default function CampaignManagement({
   // Tier form state
   const [tierForm, setTierForm] = useState({
     name: '',
-    amount: ''
+    amount: '',
+    description: '',
+    maxBackers: '',
+    deliveryDate: ''
   });
 
+  const loadEmergencyWithdraw = useCallback(async () => {
+    try {
+      setEmergencyAvailableAt(await web3Service.getEmergencyWithdrawAvailableAt(campaignAddress));
+    } catch (error) {
+      console.error('Error loading emergency withdrawal request:', error);
+    }
+  }, [campaignAddress]);
+
+  useEffect(() => {
+    if (isOwner) {
+      loadEmergencyWithdraw();
+    }
+  }, [isOwner, loadEmergencyWithdraw]);
+
   const handleDeleteCampaign = async () => {
     if (!confirm(`Are you sure you want to delete "${campaignName}"? This action cannot be undone.`)) {
       return;
@@ -45,7 +64,7 @@ export default function CampaignManagement({
       refreshCampaigns();
     } catch (error) {
       console.error('Error deleting campaign:', error);
-      alert(`Error deleting campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Error deleting campaign: ${web3Service.decodeError(error, 'Unknown error').message}`);
     } finally {
       setLoading(false);
     }
@@ -72,7 +91,7 @@ export default function CampaignManagement({
       refreshCampaigns();
     } catch (error) {
       console.error('Error updating campaign:', error);
-      alert(`Error updating campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Error updating campaign: ${web3Service.decodeError(error, 'Unknown error').message}`);
     } finally {
       setLoading(false);
     }
@@ -90,58 +109,99 @@ export default function CampaignManagement({
       await web3Service.addTierWithValidation(
         campaignAddress,
         tierForm.name,
-        tierForm.amount
+        tierForm.amount,
+        {
+          description: tierForm.description,
+          maxBackers: tierForm.maxBackers ? Number(tierForm.maxBackers) : 0,
+          deliveryDate: tierForm.deliveryDate ? Math.floor(new Date(tierForm.deliveryDate).getTime() / 1000) : 0
+        }
       );
       alert('Tier added successfully!');
       setShowTierForm(false);
-      setTierForm({ name: '', amount: '' });
+      setTierForm({ name: '', amount: '', description: '', maxBackers: '', deliveryDate: '' });
       refreshCampaigns();
     } catch (error) {
       console.error('Error adding tier:', error);
-      alert(`Error adding tier: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Error adding tier: ${web3Service.decodeError(error, 'Unknown error').message}`);
     } finally {
       setLoading(false);
     }
   };
 
   const handleExtendDeadline = async () => {
-    const days = prompt('How many days would you like to extend the deadline?');
-    if (!days || isNaN(Number(days)) || Number(days) <= 0) {
-      alert('Please enter a valid number of days');
+    const value = prompt('New deadline (YYYY-MM-DD HH:MM, local time)');
+    const newDeadline = value ? Math.floor(new Date(value.trim().replace(' ', 'T')).getTime() / 1000) : NaN;
+    if (!Number.isFinite(newDeadline)) {
+      alert('Please enter a valid date and time');
       return;
     }
 
     setLoading(true);
     try {
-      await web3Service.extendDeadline(campaignAddress, Number(days));
-      alert(`Deadline extended by ${days} days!`);
+      await web3Service.extendDeadline(campaignAddress, newDeadline);
+      alert(`Deadline moved to ${new Date(newDeadline * 1000).toLocaleString()}!`);
       refreshCampaigns();
     } catch (error) {
       console.error('Error extending deadline:', error);
-      alert(`Error extending deadline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Error extending deadline: ${web3Service.decodeError(error, 'Unknown error').message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestEmergencyWithdraw = async () => {
+    if (!confirm('Request an emergency withdrawal? Backers are notified and can claim refunds until the delay has passed. This should only be used in critical situations.')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await web3Service.requestEmergencyWithdraw(campaignAddress);
+      alert('Emergency withdrawal requested. You can execute it once the delay has passed.');
+      await loadEmergencyWithdraw();
+    } catch (error) {
+      console.error('Error requesting emergency withdrawal:', error);
+      alert(`Error requesting emergency withdrawal: ${web3Service.decodeError(error, 'Unknown error').message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelEmergencyWithdraw = async () => {
+    setLoading(true);
+    try {
+      await web3Service.cancelEmergencyWithdraw(campaignAddress);
+      alert('Emergency withdrawal cancelled.');
+      await loadEmergencyWithdraw();
+    } catch (error) {
+      console.error('Error cancelling emergency withdrawal:', error);
+      alert(`Error cancelling emergency withdrawal: ${web3Service.decodeError(error, 'Unknown error').message}`);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleEmergencyWithdraw = async () => {
-    if (!confirm('Are you sure you want to perform an emergency withdrawal? This should only be used in critical situations.')) {
+  const handleExecuteEmergencyWithdraw = async () => {
+    if (!confirm('Execute the emergency withdrawal? Everything backers have not refunded will be credited to you.')) {
       return;
     }
 
     setLoading(true);
     try {
-      await web3Service.emergencyWithdraw(campaignAddress);
-      alert('Emergency withdrawal completed!');
+      await web3Service.executeEmergencyWithdraw(campaignAddress);
+      alert('Emergency withdrawal completed! Withdraw the credited funds from the campaign page.');
+      await loadEmergencyWithdraw();
       refreshCampaigns();
     } catch (error) {
       console.error('Error performing emergency withdrawal:', error);
-      alert(`Error performing emergency withdrawal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Error performing emergency withdrawal: ${web3Service.decodeError(error, 'Unknown error').message}`);
     } finally {
       setLoading(false);
     }
   };
 
+  const emergencyUnlocked = emergencyAvailableAt > 0 && Date.now() / 1000 >= emergencyAvailableAt;
+
   if (!isOwner) {
     return null;
   }
@@ -175,13 +235,23 @@ export default function CampaignManagement({
           Extend Deadline
         </button>
         
-        <button
-          onClick={handleEmergencyWithdraw}
-          disabled={loading}
-          className="bg-yellow-600 text-white px-4 py-2 rounded hover:bg-yellow-700 disabled:opacity-50"
-        >
-          Emergency Withdraw
-        </button>
+        {emergencyAvailableAt === 0 ? (
+          <button
+            onClick={handleRequestEmergencyWithdraw}
+            disabled={loading}
+            className="bg-yellow-600 text-white px-4 py-2 rounded hover:bg-yellow-700 disabled:opacity-50"
+          >
+            Emergency Withdraw
+          </button>
+        ) : (
+          <button
+            onClick={handleCancelEmergencyWithdraw}
+            disabled={loading}
+            className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 disabled:opacity-50"
+          >
+            Cancel Emergency
+          </button>
+        )}
         
         <button
           onClick={handleDeleteCampaign}
@@ -192,6 +262,24 @@ export default function CampaignManagement({
         </button>
       </div>
 
+      {/* Pending emergency withdrawal */}
+      {emergencyAvailableAt > 0 && (
+        <div className="mt-4 p-4 border border-yellow-300 bg-yellow-50 rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <p className="text-sm text-yellow-800">
+            {emergencyUnlocked
+              ? 'The emergency withdrawal delay has passed.'
+              : `Emergency withdrawal requested. Backers can refund until ${new Date(emergencyAvailableAt * 1000).toLocaleString()}.`}
+          </p>
+          <button
+            onClick={handleExecuteEmergencyWithdraw}
+            disabled={loading || !emergencyUnlocked}
+            className="bg-yellow-600 text-white px-4 py-2 rounded hover:bg-yellow-700 disabled:opacity-50"
+          >
+            Execute Withdrawal
+          </button>
+        </div>
+      )}
+
       {/* Update Form */}
       {showUpdateForm && (
         <form onSubmit={handleUpdateCampaign} className="mt-6 p-4 border rounded-lg">
@@ -263,6 +351,27 @@ export default function CampaignManagement({
               className="w-full p-2 border rounded"
               required
             />
+            <textarea
+              placeholder="Reward Description (optional)"
+              value={tierForm.description}
+              onChange={(e) => setTierForm({ ...tierForm, description: e.target.value })}
+              className="w-full p-2 border rounded h-20"
+            />
+            <input
+              type="number"
+              min="0"
+              step="1"
+              placeholder="Backer Limit (blank for unlimited)"
+              value={tierForm.maxBackers}
+              onChange={(e) => setTierForm({ ...tierForm, maxBackers: e.target.value })}
+              className="w-full p-2 border rounded"
+            />
+            <input
+              type="date"
+              value={tierForm.deliveryDate}
+              onChange={(e) => setTierForm({ ...tierForm, deliveryDate: e.target.value })}
+              className="w-full p-2 border rounded"
+            />
             <div className="flex gap-2">
               <button
                 type="submit"
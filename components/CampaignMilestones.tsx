@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { web3Service } from '@/lib/web3';
+import { CampaignState } from '@/lib/contracts';
+
+interface Milestone {
+  title: string;
+  percentage: number;
+  approvals: string;
+  released: boolean;
+}
+
+interface CampaignMilestonesProps {
+  campaignAddress: string;
+  milestones: Milestone[];
+  currentMilestone: number;
+  state: number;
+  // Raised through tiers and donations; approvals need more than half of it
+  raisedTotal: number;
+  // Currency symbol of the campaign
+  symbol: string;
+  account: string | null;
+  isOwner: boolean;
+  onUpdated: () => Promise<void> | void;
+}
+
+const formatAmount = (value: number, symbol: string) => `${parseFloat(value.toFixed(6))} ${symbol}`;
+
+export default function CampaignMilestones({
+  campaignAddress,
+  milestones,
+  currentMilestone,
+  state,
+  raisedTotal,
+  symbol,
+  account,
+  isOwner,
+  onUpdated
+}: CampaignMilestonesProps) {
+  const [contribution, setContribution] = useState(0);
+  const [hasApproved, setHasApproved] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [releasing, setReleasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBackerStatus = useCallback(async () => {
+    if (!account || currentMilestone >= milestones.length) {
+      setContribution(0);
+      setHasApproved(false);
+      return;
+    }
+
+    try {
+      const [amount, approval] = await Promise.all([
+        web3Service.getBackerContribution(campaignAddress, account),
+        web3Service.getMilestoneApproval(campaignAddress, account, currentMilestone)
+      ]);
+      setContribution(parseFloat(amount));
+      setHasApproved(parseFloat(approval) > 0);
+    } catch (err) {
+      console.error('Failed to load milestone approval:', err);
+    }
+  }, [campaignAddress, account, currentMilestone, milestones.length]);
+
+  useEffect(() => {
+    loadBackerStatus();
+  }, [loadBackerStatus]);
+
+  const handleApprove = async () => {
+    try {
+      setApproving(true);
+      setError(null);
+      await web3Service.approveMilestone(campaignAddress);
+      await onUpdated();
+      await loadBackerStatus();
+    } catch (err: unknown) {
+      setError(web3Service.decodeError(err, 'Failed to approve milestone').message);
+      console.error(err);
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    try {
+      setReleasing(true);
+      setError(null);
+      await web3Service.releaseMilestone(campaignAddress);
+      await onUpdated();
+    } catch (err: unknown) {
+      setError(web3Service.decodeError(err, 'Failed to release milestone').message);
+      console.error(err);
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  const successful = state === CampaignState.Successful;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Funds are released one milestone at a time once backers holding more than half of the
+        raised {formatAmount(raisedTotal, symbol)} approve it.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {milestones.map((milestone, index) => {
+          const approvals = parseFloat(milestone.approvals);
+          const approvalShare = raisedTotal > 0 ? Math.min((approvals / raisedTotal) * 100, 100) : 0;
+          const isCurrent = index === currentMilestone;
+          const approved = approvals * 2 > raisedTotal;
+
+          return (
+            <li
+              key={index}
+              className={`border-2 rounded-lg p-4 ${isCurrent && successful ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <h3 className="font-bold text-gray-900">{index + 1}. {milestone.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    {milestone.percentage}% of funds · {formatAmount((raisedTotal * milestone.percentage) / 100, symbol)}
+                  </p>
+                </div>
+                <span
+                  className={`text-xs font-medium px-2 py-1 rounded-full ${milestone.released
+                    ? 'bg-green-100 text-green-700'
+                    : isCurrent && successful
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'bg-gray-100 text-gray-600'
+                    }`}
+                >
+                  {milestone.released ? 'Released' : isCurrent && successful ? 'Voting' : 'Pending'}
+                </span>
+              </div>
+
+              {!milestone.released && isCurrent && successful && (
+                <>
+                  <div className="w-full bg-gray-200 rounded-full h-2 mb-1">
+                    <div
+                      className={`h-2 rounded-full ${approved ? 'bg-green-600' : 'bg-blue-600'}`}
+                      style={{ width: `${approvalShare}%` }}
+                    ></div>
+                  </div>
+                  <p className="text-xs text-gray-600 mb-3">
+                    {formatAmount(approvals, symbol)} approved ({approvalShare.toFixed(1)}%) · more than 50% needed
+                  </p>
+
+                  <div className="flex gap-2">
+                    {!isOwner && contribution > 0 && (
+                      <button
+                        onClick={handleApprove}
+                        disabled={approving || hasApproved}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400"
+                      >
+                        {hasApproved ? 'Approved' : approving ? 'Approving...' : `Approve with ${formatAmount(contribution, symbol)}`}
+                      </button>
+                    )}
+                    {isOwner && (
+                      <button
+                        onClick={handleRelease}
+                        disabled={releasing || !approved}
+                        className="bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors text-sm disabled:bg-gray-400"
+                        title={approved ? undefined : 'Waiting for backer approval'}
+                      >
+                        {releasing ? 'Releasing...' : 'Release Milestone'}
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+import { useEffect, useState } from "react";
+import { web3Service, WriteAction } from "@/lib/web3";
+import { DEFAULT_FEE_PRESET, FEE_PRESETS, FeeEstimate, FeePreset } from "@/lib/fees";
+
+export interface FeePreviewRequest {
+  action: WriteAction;
+  // Shown as the modal heading, e.g. "Fund 0.1 ETH"
+  title: string;
+  onConfirm: (preset: FeePreset) => void;
+}
+
+interface FeePreviewModalProps {
+  request: FeePreviewRequest | null;
+  onClose: () => void;
+}
+
+const PRESETS = Object.keys(FEE_PRESETS) as FeePreset[];
+
+const formatCost = (amount: string, symbol: string) => `${parseFloat(parseFloat(amount).toFixed(8))} ${symbol}`;
+
+export default function FeePreviewModal({ request, onClose }: FeePreviewModalProps) {
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [preset, setPreset] = useState<FeePreset>(DEFAULT_FEE_PRESET);
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    setEstimate(null);
+    setError(null);
+    setPreset(DEFAULT_FEE_PRESET);
+
+    web3Service.estimateFees(request.action)
+      .then((result) => {
+        if (!cancelled) setEstimate(result);
+      })
+      .catch((err: unknown) => {
+        console.error("Fee estimation failed:", err);
+        if (!cancelled) setError(web3Service.decodeError(err, "Could not estimate the transaction fee").message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  if (!request) return null;
+
+  const quote = estimate?.quotes[preset];
+
+  const handleConfirm = () => {
+    onClose();
+    request.onConfirm(preset);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 font-space-grotesk">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+        <h3 className="text-xl font-bold text-gray-900 mb-1">{request.title}</h3>
+        <p className="text-gray-600 text-sm mb-4">Review the network fee before signing in your wallet.</p>
+
+        {!estimate && !error && (
+          <div className="flex items-center space-x-3 py-6 text-gray-600">
+            <span className="h-5 w-5 border-2 border-gray-300 border-t-black rounded-full animate-spin"></span>
+            <span>Estimating gas...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+            This transaction would fail: {error}
+          </div>
+        )}
+
+        {estimate && quote && (
+          <>
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              {PRESETS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setPreset(option)}
+                  className={`border rounded-lg px-3 py-2 text-sm text-left transition-colors ${
+                    preset === option ? "border-black bg-gray-50" : "border-gray-300 hover:border-gray-500"
+                  }`}
+                >
+                  <span className="block font-medium text-gray-900">{FEE_PRESETS[option].label}</span>
+                  <span className="block text-xs text-gray-500">
+                    {formatCost(estimate.quotes[option].maxNetworkFee, estimate.symbol)}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Estimated gas</dt>
+                <dd className="font-mono text-gray-900">{Number(estimate.gasLimit).toLocaleString()}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Max fee per gas</dt>
+                <dd className="font-mono text-gray-900">{parseFloat(parseFloat(quote.maxFeePerGas).toFixed(4))} gwei</dd>
+              </div>
+              {quote.maxPriorityFeePerGas !== null && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Priority fee</dt>
+                  <dd className="font-mono text-gray-900">{parseFloat(parseFloat(quote.maxPriorityFeePerGas).toFixed(4))} gwei</dd>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Max network fee</dt>
+                <dd className="font-mono text-gray-900">{formatCost(quote.maxNetworkFee, estimate.symbol)}</dd>
+              </div>
+              {parseFloat(estimate.value) > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Amount sent</dt>
+                  <dd className="font-mono text-gray-900">{formatCost(estimate.value, estimate.symbol)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                <dt className="text-gray-900">Total cost (at most)</dt>
+                <dd className="font-mono text-gray-900">{formatCost(quote.totalCost, estimate.symbol)}</dd>
+              </div>
+            </dl>
+
+            {estimate.approvalFirst && (
+              <p className="mt-4 text-xs text-gray-600">
+                Your wallet first asks you to approve the token. These figures cover that approval; the contribution
+                itself follows once it confirms, at the same fee speed.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!estimate}
+            className="bg-black text-white px-4 py-2 rounded-lg font-medium hover:bg-gray-800 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Confirm in wallet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
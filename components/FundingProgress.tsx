@@ -0,0 +1,65 @@
+"use client";
+
+interface FundingProgressProps {
+  // Raised through tiers and donations, net of refunds; stretch goals are measured against it
+  raisedTotal: number;
+  goal: number;
+  // Ascending thresholds above the goal
+  stretchGoals: number[];
+  // Currency symbol of the campaign
+  symbol: string;
+}
+
+const formatAmount = (value: number, symbol: string) => `${parseFloat(value.toFixed(6))} ${symbol}`;
+
+export default function FundingProgress({ raisedTotal, goal, stretchGoals, symbol }: FundingProgressProps) {
+  const percentage = goal > 0 ? (raisedTotal / goal) * 100 : 0;
+  // With stretch goals the bar runs to the last one (or further, once it is passed) so every marker fits
+  const scale = Math.max(goal, stretchGoals[stretchGoals.length - 1] ?? 0, stretchGoals.length > 0 ? raisedTotal : 0);
+  const position = (amount: number) => scale > 0 ? Math.min((amount / scale) * 100, 100) : 0;
+  const markers = stretchGoals.length > 0 ? [goal, ...stretchGoals] : [];
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between text-sm font-medium text-gray-700 mb-2">
+        <span>Progress</span>
+        <span className="text-blue-600 font-semibold">
+          {percentage.toFixed(1)}%
+        </span>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-4 shadow-inner relative overflow-hidden">
+        <div
+          className="h-4 rounded-full bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 transition-all duration-500 ease-out"
+          style={{ width: `${position(raisedTotal)}%` }}
+        ></div>
+
+        <div
+          className="absolute top-0 left-0 h-4 w-full rounded-full opacity-20 bg-gradient-to-r from-transparent via-white to-transparent animate-[shine_2s_linear_infinite]"
+          style={{ width: `${position(raisedTotal)}%` }}
+        ></div>
+
+        {markers.map((amount, index) => (
+          <div
+            key={index}
+            className="absolute top-0 h-4 w-0.5 bg-white"
+            style={{ left: `${position(amount)}%` }}
+          ></div>
+        ))}
+      </div>
+
+      {stretchGoals.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          <li className={raisedTotal >= goal ? 'text-green-700' : 'text-gray-600'}>
+            {raisedTotal >= goal ? '✓' : '○'} Goal: {formatAmount(goal, symbol)}
+          </li>
+          {stretchGoals.map((amount, index) => (
+            <li key={index} className={raisedTotal >= amount ? 'text-green-700' : 'text-gray-600'}>
+              {raisedTotal >= amount ? '✓' : '○'} Stretch goal #{index + 1}: {formatAmount(amount, symbol)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { web3Service } from '@/lib/web3';
+
+type TimelineEvent = {
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+} & (
+  | { type: 'fund' | 'refund' | 'withdraw'; amount: string }
+  | { type: 'deadline_extended'; newDeadline: number }
+  | { type: 'details_updated'; newName: string; newGoal: string }
+);
+
+interface Point {
+  timestamp: number;
+  value: number;
+}
+
+interface FundingTimelineProps {
+  campaignAddress: string;
+  goal: string;
+  deadline: number;
+  // Currency symbol of the campaign
+  symbol: string;
+}
+
+// Chart geometry in SVG user units; the SVG itself scales to the container width
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 64 };
+
+const formatAmount = (value: number, symbol: string) => `${parseFloat(value.toFixed(4))} ${symbol}`;
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+export default function FundingTimeline({ campaignAddress, goal, deadline, symbol }: FundingTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEvents(await web3Service.getFundingTimeline(campaignAddress));
+    } catch (err) {
+      console.error('Failed to load funding timeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load funding timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignAddress]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading funding timeline...</div>;
+  }
+
+  if (error) {
+    return <div className="text-center py-8 text-red-600">{error}</div>;
+  }
+
+  if (events.length === 0) {
+    return <div className="text-center py-8 text-gray-500">No funding activity yet.</div>;
+  }
+
+  // Raised counts contributions net of refunds; held also subtracts what the owner withdrew
+  const raised: Point[] = [];
+  const held: Point[] = [];
+  let raisedTotal = 0;
+  let heldTotal = 0;
+  events.forEach((event) => {
+    if (event.type === 'fund' || event.type === 'refund' || event.type === 'withdraw') {
+      const amount = parseFloat(event.amount);
+      if (event.type !== 'withdraw') {
+        raisedTotal += event.type === 'fund' ? amount : -amount;
+        raised.push({ timestamp: event.timestamp, value: raisedTotal });
+      }
+      heldTotal += event.type === 'fund' ? amount : -amount;
+      held.push({ timestamp: event.timestamp, value: heldTotal });
+    }
+  });
+  const markers = events.filter((event) => event.type === 'deadline_extended' || event.type === 'details_updated');
+
+  const goalValue = parseFloat(goal);
+  const start = events[0].timestamp;
+  const now = Math.floor(Date.now() / 1000);
+  const end = Math.max(events[events.length - 1].timestamp, Math.min(now, deadline), start + 3600);
+  const maxValue = Math.max(goalValue, ...raised.map((point) => point.value), ...held.map((point) => point.value)) * 1.1 || 1;
+
+  const x = (timestamp: number) =>
+    PADDING.left + ((timestamp - start) / (end - start)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) =>
+    HEIGHT - PADDING.bottom - (value / maxValue) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  // Step-after line: the amount holds until the next event changes it
+  const stepPath = (points: Point[]) =>
+    points.reduce(
+      (path, point) => `${path} H ${x(point.timestamp)} V ${y(point.value)}`,
+      `M ${x(start)} ${y(0)}`
+    ) + ` H ${x(end)}`;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Funding timeline">
+        {/* Axes */}
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(0)} stroke="#d1d5db" />
+        <text x={PADDING.left - 6} y={y(0)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px]">0</text>
+        <text x={PADDING.left - 6} y={y(maxValue / 1.1)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px]">
+          {formatAmount(maxValue / 1.1, symbol)}
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 12} className="fill-gray-500 text-[10px]">{formatDate(start)}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 12} textAnchor="end" className="fill-gray-500 text-[10px]">{formatDate(end)}</text>
+
+        {/* Goal */}
+        <line x1={PADDING.left} y1={y(goalValue)} x2={WIDTH - PADDING.right} y2={y(goalValue)} stroke="#2563eb" strokeDasharray="6 4" />
+        <text x={WIDTH - PADDING.right} y={y(goalValue) - 4} textAnchor="end" className="fill-blue-600 text-[10px]">
+          Goal {formatAmount(goalValue, symbol)}
+        </text>
+
+        {/* Deadline extensions and detail updates */}
+        {markers.map((marker) => (
+          <g key={`${marker.transactionHash}-${marker.type}`}>
+            <line x1={x(marker.timestamp)} y1={PADDING.top} x2={x(marker.timestamp)} y2={y(0)} stroke="#9333ea" strokeDasharray="2 3" />
+            <circle cx={x(marker.timestamp)} cy={PADDING.top} r={4} fill={marker.type === 'deadline_extended' ? '#9333ea' : '#f59e0b'}>
+              <title>
+                {marker.type === 'deadline_extended'
+                  ? `${formatDate(marker.timestamp)}: deadline extended to ${formatDate(marker.newDeadline)}`
+                  : `${formatDate(marker.timestamp)}: details updated, goal ${marker.newGoal} ${symbol}`}
+              </title>
+            </circle>
+          </g>
+        ))}
+
+        <path d={stepPath(held)} fill="none" stroke="#9ca3af" strokeWidth={1.5} />
+        <path d={stepPath(raised)} fill="none" stroke="#16a34a" strokeWidth={2.5} />
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 mt-2">
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-green-600 inline-block"></span>Raised (net of refunds)</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-gray-400 inline-block"></span>Held in contract</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 border-t border-dashed border-blue-600 inline-block"></span>Goal</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-purple-600 inline-block"></span>Deadline extended</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-amber-500 inline-block"></span>Details updated</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+
+interface LaunchCountdownProps {
+  // Unix timestamp funding opens at
+  startTime: number;
+  // Called once when the countdown reaches zero, e.g. to reload the campaign
+  onLaunch?: () => void;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export default function LaunchCountdown({ startTime, onLaunch }: LaunchCountdownProps) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const remaining = Math.max(startTime - now, 0);
+
+  useEffect(() => {
+    if (remaining === 0) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [remaining]);
+
+  useEffect(() => {
+    if (remaining === 0) {
+      onLaunch?.();
+    }
+  }, [remaining, onLaunch]);
+
+  const days = Math.floor(remaining / 86400);
+  const hours = Math.floor((remaining % 86400) / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-6 text-center">
+      <h2 className="text-xl font-bold text-amber-800 mb-2">Launching Soon</h2>
+      <p className="text-3xl font-bold text-amber-900 font-mono mb-2">
+        {days > 0 && `${days}d `}{pad(hours)}:{pad(minutes)}:{pad(seconds)}
+      </p>
+      <p className="text-sm text-amber-700">
+        Funding opens {new Date(startTime * 1000).toLocaleString()}
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 import Link from "next/link";
 import { useWeb3 } from "@/contexts/Web3Context";
+import TransactionTray from "@/components/TransactionTray";
 
 
 
@@ -30,11 +31,18 @@ export default function Navbar() {
             >
               My Campaigns
             </Link>
+            <Link
+              href="/my-contributions"
+              className="text-gray-700 hover:text-black font-medium"
+            >
+              My Contributions
+            </Link>
           
           </div>
 
           {/* Account/Connect Section */}
-          <div className="h-3/4">
+          <div className="h-3/4 flex items-center space-x-3">
+            <TransactionTray />
             {isConnected ? (
               <div className="flex items-center space-x-3 border border-gray-300 rounded-lg px-4 py-1.5">
                 {/* Avatar */}
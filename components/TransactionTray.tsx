@@ -0,0 +1,116 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { web3Service } from "@/lib/web3";
+import { transactionManager, TrackedTransaction, TransactionStatus } from "@/lib/transactionManager";
+import { getNetwork } from "@/lib/networks";
+
+const STATUS_LABELS: Record<TransactionStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-800" },
+  confirmed: { label: "Confirmed", className: "bg-green-100 text-green-800" },
+  failed: { label: "Reverted", className: "bg-red-100 text-red-800" },
+  replaced: { label: "Replaced", className: "bg-orange-100 text-orange-800" },
+  dropped: { label: "Dropped", className: "bg-gray-200 text-gray-700" },
+};
+
+function explorerLink(tx: TrackedTransaction): string | null {
+  const explorer = getNetwork(tx.chainId)?.blockExplorerUrls?.[0];
+  return explorer ? `${explorer.replace(/\/$/, "")}/tx/${tx.replacedBy ?? tx.hash}` : null;
+}
+
+export default function TransactionTray() {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [open, setOpen] = useState(false);
+  const trayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setTransactions(transactionManager.getTransactions());
+    const unsubscribe = transactionManager.subscribe(setTransactions);
+    // Anything still pending from before a reload is watched again from here
+    web3Service.resumePendingTransactions();
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (trayRef.current && !trayRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const pendingCount = transactions.filter((tx) => tx.status === "pending").length;
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="relative" ref={trayRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 border border-gray-300 rounded-lg px-3 py-2 text-sm font-medium text-gray-700 hover:text-black"
+      >
+        {pendingCount > 0 && (
+          <span className="h-4 w-4 border-2 border-gray-300 border-t-black rounded-full animate-spin"></span>
+        )}
+        <span>{pendingCount > 0 ? `${pendingCount} pending` : "Transactions"}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+            <span className="font-semibold text-gray-900">Transactions</span>
+            <button
+              onClick={() => transactionManager.clearSettled()}
+              className="text-sm text-gray-500 hover:text-black"
+            >
+              Clear finished
+            </button>
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {transactions.map((tx) => {
+              const status = STATUS_LABELS[tx.status];
+              const link = explorerLink(tx);
+              return (
+                <li key={tx.hash} className="px-4 py-3 text-sm">
+                  <div className="flex justify-between items-start">
+                    <span className="font-medium text-gray-900">{tx.intent}</span>
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <div className="flex justify-between mt-1 text-xs text-gray-500">
+                    <span>{new Date(tx.submittedAt).toLocaleString()}</span>
+                    <span className="space-x-3">
+                      {tx.campaignAddress && (
+                        <Link href={`/campaign/${tx.campaignAddress}`} className="hover:text-black">
+                          Campaign
+                        </Link>
+                      )}
+                      {link ? (
+                        <a href={link} target="_blank" rel="noopener noreferrer" className="font-mono hover:text-black">
+                          {(tx.replacedBy ?? tx.hash).slice(0, 10)}...
+                        </a>
+                      ) : (
+                        <span className="font-mono">{(tx.replacedBy ?? tx.hash).slice(0, 10)}...</span>
+                      )}
+                    </span>
+                  </div>
+                  {tx.status === "replaced" && (
+                    <p className="mt-1 text-xs text-orange-700">Your wallet replaced or cancelled this transaction.</p>
+                  )}
+                  {tx.status === "dropped" && (
+                    <p className="mt-1 text-xs text-gray-600">It was never mined. Check your wallet and try again.</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
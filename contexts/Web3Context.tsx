@@ -7,16 +7,9 @@ import React, {
   useEffect,
   ReactNode,
 } from "react";
-import { web3Service } from "@/lib/web3";
+import { web3Service, type Campaign } from "@/lib/web3";
 import { useRealTimeUpdates } from "@/hooks/useRealTimeUpdates";
 
-interface Campaign {
-  campaignAddress: string;
-  owner: string;
-  name: string;
-  creationTime: number;
-}
-
 
 declare global {
   interface EthereumProvider {
@@ -37,10 +30,12 @@ interface Web3ContextType {
   connectWallet: () => Promise<void>;
   isConnected: boolean;
   balance : string | null;
+  chainId: number | null;
   campaigns: Campaign[];
   campaignsLoading: boolean;
   campaignsError: string | null;
   lastUpdate: Date | null;
+  lastEvent: { type: string; campaignAddress: string } | null;
   refreshCampaigns: () => void;
 }
 
@@ -54,6 +49,7 @@ export function Web3Provider({ children }: Web3ProviderProps) {
   const [account, setAccount] = useState<string | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
   const [balance, setBalance] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
   
   // Use the real-time updates hook
   const {
@@ -61,6 +57,7 @@ export function Web3Provider({ children }: Web3ProviderProps) {
     loading: campaignsLoading,
     error: campaignsError,
     lastUpdate,
+    lastEvent,
     refresh: refreshCampaigns
   } = useRealTimeUpdates({
     enableEventListeners: true
@@ -84,10 +81,17 @@ export function Web3Provider({ children }: Web3ProviderProps) {
       }
     };
   
-    const handleChainChanged = () => {
-      console.log("[Web3Context] Chain changed, reloading...");
-      window.location.reload();
+    // Campaigns are read per chain over RPC, so a switch only needs a fresh signer
+    const handleChainChanged = async (hexChainId: string) => {
+      console.log("[Web3Context] Chain changed:", hexChainId);
+      setChainId(parseInt(hexChainId, 16));
+      await web3Service.reinitializeSigner();
+      if (account) {
+        setBalance(await web3Service.getBalance(account));
+      }
     };
+
+    web3Service.getCurrentNetwork().then(setChainId).catch(() => setChainId(null));
   
     // Attach listeners
     window.ethereum.on?.("accountsChanged", handleAccountsChanged as unknown as (...args: unknown[]) => void);
@@ -137,10 +141,12 @@ export function Web3Provider({ children }: Web3ProviderProps) {
     connectWallet,
     isConnected: !!account,
     balance,
+    chainId,
     campaigns,
     campaignsLoading,
     campaignsError,
     lastUpdate,
+    lastEvent,
     refreshCampaigns
   };
 
@@ -1,11 +1,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { web3Service } from '@/lib/web3';
+import { web3Service, type Campaign as FactoryCampaign } from '@/lib/web3';
 
-interface Campaign {
-    campaignAddress: string;
-    owner: string;
-    name: string;
-    creationTime: number;
+// A factory entry, filled in with details as they are refreshed
+type Campaign = FactoryCampaign & {
     description?: string;
     goal?: string;
     currentAmount?: string;
@@ -15,7 +12,7 @@ interface Campaign {
         name: string;
         amount: string;
     }>;
-}
+};
 
 interface UseEnhancedRealTimeUpdatesProps {
     enablePolling?: boolean;
@@ -221,12 +218,10 @@ export const useEnhancedRealTimeUpdates = ({
         try {
             const campaignDetails = await web3Service.getCampaignDetails(campaignAddress);
             if (campaignDetails) {
-                // Convert campaign details to Campaign format
-                const updatedCampaign: Campaign = {
-                    campaignAddress,
+                // Merge the details into the factory entry, which keeps its creation time and chain
+                const updates: Partial<Campaign> = {
                     owner: campaignDetails.owner,
                     name: campaignDetails.name,
-                    creationTime: 0, // This would need to be fetched separately
                     description: campaignDetails.description,
                     goal: campaignDetails.goal,
                     currentAmount: campaignDetails.balance,
@@ -239,7 +234,7 @@ export const useEnhancedRealTimeUpdates = ({
                 };
 
                 setCampaigns(prev => prev.map(campaign =>
-                    campaign.campaignAddress === campaignAddress ? updatedCampaign : campaign
+                    campaign.campaignAddress === campaignAddress ? { ...campaign, ...updates } : campaign
                 ));
                 setLastUpdate(new Date());
 
@@ -247,7 +242,7 @@ export const useEnhancedRealTimeUpdates = ({
                 const cachedData = getCachedData();
                 if (cachedData) {
                     const updatedCache = cachedData.map(campaign =>
-                        campaign.campaignAddress === campaignAddress ? updatedCampaign : campaign
+                        campaign.campaignAddress === campaignAddress ? { ...campaign, ...updates } : campaign
                     );
                     setCachedData(updatedCache);
                 }
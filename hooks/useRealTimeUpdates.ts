@@ -1,13 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { web3Service } from '@/lib/web3';
+import { web3Service, type Campaign } from '@/lib/web3';
 import { notificationManager } from '@/lib/notificationManager';
-
-interface Campaign {
-  campaignAddress: string;
-  owner: string;
-  name: string;
-  creationTime: number;
-}
+import { ACTIVE_NETWORK } from '@/lib/networks';
 
 interface UseRealTimeUpdatesProps {
   enableEventListeners?: boolean;
@@ -20,6 +14,8 @@ export const useRealTimeUpdates = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  // Most recent campaign event, so an open campaign page can refresh without a listener of its own
+  const [lastEvent, setLastEvent] = useState<{ type: string; campaignAddress: string } | null>(null);
 
   // Track listeners to prevent duplicates
   const [listenersSetup, setListenersSetup] = useState<Set<string>>(new Set());
@@ -32,7 +28,7 @@ export const useRealTimeUpdates = ({
     try {
       setLoading(true);
       setError(null);
-      const allCampaigns = await web3Service.getAllCampaigns();
+      const allCampaigns = await web3Service.getCampaignsFromAllChains();
       setCampaigns(allCampaigns || []);
       setLastUpdate(new Date());
     } catch (err) {
@@ -40,9 +36,9 @@ export const useRealTimeUpdates = ({
       const errorMessage = err instanceof Error ? err.message : 'Failed to load campaigns';
 
       if (errorMessage.includes('decode')) {
-        setError('Network or contract issue detected. Check Holesky Testnet and deployment.');
+        setError(`Network or contract issue detected. Check ${ACTIVE_NETWORK.name} and deployment.`);
       } else if (errorMessage.includes('switch to the correct network')) {
-        setError('Please switch to Holesky Testnet to view campaigns.');
+        setError(`Please switch to ${ACTIVE_NETWORK.name} to view campaigns.`);
       } else if (errorMessage.includes('No contract found')) {
         setError('Contract not found at the specified address.');
       } else {
@@ -67,7 +63,9 @@ export const useRealTimeUpdates = ({
     notificationManager.showNotification('campaign_created', campaignData);
 
     setCampaigns(prev => {
-      const exists = prev.some(c => c.campaignAddress === campaignData.campaignAddress);
+      const exists = prev.some(c =>
+        c.campaignAddress === campaignData.campaignAddress && c.chainId === campaignData.chainId
+      );
       if (!exists) {
         setLastUpdate(new Date());
         return [...prev, campaignData];
@@ -76,9 +74,10 @@ export const useRealTimeUpdates = ({
     });
   }, []);
 
-  const handleGenericEvent = useCallback((type: string, data: any, campaignAddress: string) => {
+  const handleGenericEvent = useCallback((type: string, data: object, campaignAddress: string) => {
     console.log(`${type} event:`, data);
     notificationManager.showNotification(type, data, campaignAddress);
+    setLastEvent({ type, campaignAddress });
     setLastUpdate(new Date());
   }, []);
 
@@ -102,9 +101,15 @@ export const useRealTimeUpdates = ({
 
         web3Service.listenForCampaignEvents(campaign.campaignAddress, {
           onFundReceived: (data) => handleGenericEvent('campaign_funded', data, campaign.campaignAddress),
+          onDonationReceived: (data) => handleGenericEvent('donation_received', data, campaign.campaignAddress),
           onStateChanged: (data) => handleGenericEvent('campaign_state_changed', data, campaign.campaignAddress),
           onTierAdded: (data) => handleGenericEvent('tier_added', data, campaign.campaignAddress),
           onTierRemoved: (data) => handleGenericEvent('tier_removed', data, campaign.campaignAddress),
+          onTierUpdated: (data) => handleGenericEvent('tier_updated', data, campaign.campaignAddress),
+          onMilestoneApproved: (data) => handleGenericEvent('milestone_approved', data, campaign.campaignAddress),
+          onMilestoneReleased: (data) => handleGenericEvent('milestone_released', data, campaign.campaignAddress),
+          onStretchGoalAdded: (data) => handleGenericEvent('stretch_goal_added', data, campaign.campaignAddress),
+          onStretchGoalReached: (data) => handleGenericEvent('stretch_goal_reached', data, campaign.campaignAddress),
           onWithdraw: (data) => handleGenericEvent('funds_withdrawn', data, campaign.campaignAddress),
           onRefund: (data) => handleGenericEvent('refund_issued', data, campaign.campaignAddress),
           onPaused: (data) => handleGenericEvent('campaign_paused', data, campaign.campaignAddress),
@@ -112,6 +117,8 @@ export const useRealTimeUpdates = ({
           onDetailsUpdated: (data) => handleGenericEvent('details_updated', data, campaign.campaignAddress),
           onDeleted: (data) => handleGenericEvent('campaign_deleted', data, campaign.campaignAddress),
           onEmergencyWithdraw: (data) => handleGenericEvent('emergency_withdraw', data, campaign.campaignAddress),
+          onEmergencyWithdrawRequested: (data) => handleGenericEvent('emergency_withdraw_requested', data, campaign.campaignAddress),
+          onEmergencyWithdrawCancelled: (data) => handleGenericEvent('emergency_withdraw_cancelled', data, campaign.campaignAddress),
         });
 
         setListenersSetup(prev => {
@@ -175,6 +182,7 @@ export const useRealTimeUpdates = ({
     loading,
     error,
     lastUpdate,
+    lastEvent,
     refresh,
     refreshCampaign,
     getListenerStatus,
@@ -0,0 +1,392 @@
+// Generated by scripts/generateContractTypes.ts from the Hardhat artifacts. Do not edit by hand:
+// compile the contracts and run `npm run contracts:types` instead.
+import { ethers } from 'ethers';
+
+type WithOverrides<A extends unknown[]> = A | [...A, ethers.Overrides];
+
+export interface ContractView<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+  staticCall(...args: A): Promise<R>;
+}
+
+export interface ContractWrite<A extends unknown[], R> {
+  (...args: WithOverrides<A>): Promise<ethers.ContractTransactionResponse>;
+  staticCall(...args: WithOverrides<A>): Promise<R>;
+  estimateGas(...args: WithOverrides<A>): Promise<bigint>;
+}
+
+export enum CrowdFundingCampaignState {
+  Active = 0,
+  Successful = 1,
+  Failed = 2
+}
+
+export interface CrowdFundingFactoryCampaign {
+  campaignAddress: string;
+  owner: string;
+  name: string;
+  creationTime: bigint;
+}
+
+export interface CrowdFundingMilestone {
+  title: string;
+  percentage: bigint;
+  approvals: bigint;
+  released: boolean;
+}
+
+export interface CrowdFundingTier {
+  name: string;
+  amount: bigint;
+  backers: bigint;
+  id: bigint;
+  description: string;
+  maxBackers: bigint;
+  deliveryDate: bigint;
+}
+
+export const CROWDFUNDING_ABI = [
+  "constructor(address _owner, string _name, string _description, uint256 _goal, uint256 _startTime, uint256 _deadline, address _token, bool _fundUntilDeadline, uint256 _hardCap, string[] _milestoneTitles, uint256[] _milestonePercentages)",
+  "error AlreadyApproved()",
+  "error CampaignIsDeleted()",
+  "error CampaignNotActive()",
+  "error CampaignNotStarted()",
+  "error CampaignNotSuccessful()",
+  "error ClosesAtGoal()",
+  "error ContractPaused()",
+  "error DeadlineNotLater()",
+  "error DeadlineTooFar()",
+  "error DeadlineTooSoon()",
+  "error DeliveryDateInPast()",
+  "error DonationBelowMinimum()",
+  "error EmergencyWithdrawAlreadyRequested()",
+  "error EmergencyWithdrawLocked(uint256 availableAt)",
+  "error ExceedsHardCap()",
+  "error GoalAboveHardCap()",
+  "error GoalAboveStretchGoal()",
+  "error IncorrectAmount()",
+  "error InsufficientBalance()",
+  "error InvalidAmount()",
+  "error InvalidGoal()",
+  "error InvalidHardCap()",
+  "error InvalidMilestones()",
+  "error InvalidTier()",
+  "error MilestoneNotApproved()",
+  "error NoContribution()",
+  "error NoEmergencyWithdrawRequested()",
+  "error NoFundsAvailable()",
+  "error NoMilestonePending()",
+  "error NoPendingPayment()",
+  "error NotOwner()",
+  "error ReentrantCall()",
+  "error RefundNotAvailable()",
+  "error ReleasedByMilestone()",
+  "error StartTimeInPast()",
+  "error StretchGoalAboveHardCap()",
+  "error StretchGoalTooLow()",
+  "error TierHasBackers()",
+  "error TierSoldOut()",
+  "error TokenNotContract()",
+  "error TransferFailed()",
+  "error UnsupportedToken()",
+  "error WrongCurrency()",
+  "event CampaignDeleted(address indexed by)",
+  "event CampaignDetailsUpdated(string newName, string newDescription, uint256 newGoal)",
+  "event CampaignPaused(bool paused)",
+  "event CampaignStateChanged(uint8 newState)",
+  "event DeadlineExtended(uint256 newDeadline)",
+  "event DonationReceived(address indexed backer, uint256 amount)",
+  "event EmergencyWithdraw(address indexed owner, uint256 amount)",
+  "event EmergencyWithdrawCancelled(address indexed owner)",
+  "event EmergencyWithdrawRequested(address indexed owner, uint256 availableAt)",
+  "event FundReceived(address indexed backer, uint256 amount, uint256 tierIndex)",
+  "event FundsWithdrawn(address indexed owner, uint256 amount)",
+  "event MilestoneApproved(uint256 indexed index, address indexed backer, uint256 weight)",
+  "event MilestoneReleased(uint256 indexed index, uint256 amount)",
+  "event MinDonationUpdated(uint256 minDonation)",
+  "event PaymentWithdrawn(address indexed payee, uint256 amount)",
+  "event RefundIssued(address indexed backer, uint256 amount)",
+  "event StretchGoalAdded(uint256 indexed index, uint256 amount)",
+  "event StretchGoalReached(uint256 indexed index, uint256 amount)",
+  "event TierAdded(string name, uint256 amount, string description, uint256 maxBackers, uint256 deliveryDate)",
+  "event TierRemoved(uint256 index)",
+  "event TierUpdated(uint256 index, string name, uint256 amount)",
+  "function EMERGENCY_WITHDRAW_DELAY() view returns (uint256)",
+  "function MAX_DURATION() view returns (uint256)",
+  "function MIN_DURATION() view returns (uint256)",
+  "function addStretchGoal(uint256 _amount)",
+  "function addTier(string _name, string _description, uint256 _amount, uint256 _maxBackers, uint256 _deliveryDate)",
+  "function approveMilestone()",
+  "function backers(address) view returns (uint256 totalContribution)",
+  "function cancelEmergencyWithdraw()",
+  "function currentMilestone() view returns (uint256)",
+  "function deadline() view returns (uint256)",
+  "function deleteCampaign()",
+  "function deleted() view returns (bool)",
+  "function description() view returns (string)",
+  "function donate() payable",
+  "function donateToken(uint256 _amount)",
+  "function donations(address) view returns (uint256)",
+  "function emergencyWithdrawAvailableAt() view returns (uint256)",
+  "function executeEmergencyWithdraw()",
+  "function extendDeadline(uint256 _newDeadline)",
+  "function factory() view returns (address)",
+  "function fund(uint256 _tierIndex) payable",
+  "function fundUntilDeadline() view returns (bool)",
+  "function getCampaignStatus() view returns (uint8)",
+  "function getContractBalance() view returns (uint256)",
+  "function getMilestones() view returns ((string title, uint256 percentage, uint256 approvals, bool released)[])",
+  "function getStretchGoals() view returns (uint256[])",
+  "function getTierContribution(address _backer, uint256 _tierIndex) view returns (uint256)",
+  "function getTiers() view returns ((string name, uint256 amount, uint256 backers, uint256 id, string description, uint256 maxBackers, uint256 deliveryDate)[])",
+  "function goal() view returns (uint256)",
+  "function hardCap() view returns (uint256)",
+  "function hasFundedTier(address _backer, uint256 _tierIndex) view returns (bool)",
+  "function milestoneApprovals(uint256, address) view returns (uint256)",
+  "function milestones(uint256) view returns (string title, uint256 percentage, uint256 approvals, bool released)",
+  "function minDonation() view returns (uint256)",
+  "function name() view returns (string)",
+  "function owner() view returns (address)",
+  "function paused() view returns (bool)",
+  "function pendingWithdrawals(address) view returns (uint256)",
+  "function refund()",
+  "function releaseMilestone()",
+  "function removeTier(uint256 _index)",
+  "function requestEmergencyWithdraw()",
+  "function setMinDonation(uint256 _minDonation)",
+  "function startTime() view returns (uint256)",
+  "function state() view returns (uint8)",
+  "function stretchGoals(uint256) view returns (uint256)",
+  "function stretchGoalsReached() view returns (uint256)",
+  "function tiers(uint256) view returns (string name, uint256 amount, uint256 backers, uint256 id, string description, uint256 maxBackers, uint256 deliveryDate)",
+  "function togglePause()",
+  "function token() view returns (address)",
+  "function totalDonated() view returns (uint256)",
+  "function totalPendingWithdrawals() view returns (uint256)",
+  "function totalTiered() view returns (uint256)",
+  "function updateCampaignDetails(string _newName, string _newDescription, uint256 _newGoal)",
+  "function updateTier(uint256 _index, string _name, uint256 _amount)",
+  "function withdraw()",
+  "function withdrawPayments()"
+];
+
+export interface CrowdFundingEventArgs {
+  CampaignDeleted: { by: string };
+  CampaignDetailsUpdated: { newName: string; newDescription: string; newGoal: bigint };
+  CampaignPaused: { paused: boolean };
+  CampaignStateChanged: { newState: bigint };
+  DeadlineExtended: { newDeadline: bigint };
+  DonationReceived: { backer: string; amount: bigint };
+  EmergencyWithdraw: { owner: string; amount: bigint };
+  EmergencyWithdrawCancelled: { owner: string };
+  EmergencyWithdrawRequested: { owner: string; availableAt: bigint };
+  FundReceived: { backer: string; amount: bigint; tierIndex: bigint };
+  FundsWithdrawn: { owner: string; amount: bigint };
+  MilestoneApproved: { index: bigint; backer: string; weight: bigint };
+  MilestoneReleased: { index: bigint; amount: bigint };
+  MinDonationUpdated: { minDonation: bigint };
+  PaymentWithdrawn: { payee: string; amount: bigint };
+  RefundIssued: { backer: string; amount: bigint };
+  StretchGoalAdded: { index: bigint; amount: bigint };
+  StretchGoalReached: { index: bigint; amount: bigint };
+  TierAdded: { name: string; amount: bigint; description: string; maxBackers: bigint; deliveryDate: bigint };
+  TierRemoved: { index: bigint };
+  TierUpdated: { index: bigint; name: string; amount: bigint };
+}
+
+export interface CrowdFundingEventListeners {
+  CampaignDeleted: (by: string, event: ethers.ContractEventPayload) => void;
+  CampaignDetailsUpdated: (newName: string, newDescription: string, newGoal: bigint, event: ethers.ContractEventPayload) => void;
+  CampaignPaused: (paused: boolean, event: ethers.ContractEventPayload) => void;
+  CampaignStateChanged: (newState: bigint, event: ethers.ContractEventPayload) => void;
+  DeadlineExtended: (newDeadline: bigint, event: ethers.ContractEventPayload) => void;
+  DonationReceived: (backer: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+  EmergencyWithdraw: (owner: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+  EmergencyWithdrawCancelled: (owner: string, event: ethers.ContractEventPayload) => void;
+  EmergencyWithdrawRequested: (owner: string, availableAt: bigint, event: ethers.ContractEventPayload) => void;
+  FundReceived: (backer: string, amount: bigint, tierIndex: bigint, event: ethers.ContractEventPayload) => void;
+  FundsWithdrawn: (owner: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+  MilestoneApproved: (index: bigint, backer: string, weight: bigint, event: ethers.ContractEventPayload) => void;
+  MilestoneReleased: (index: bigint, amount: bigint, event: ethers.ContractEventPayload) => void;
+  MinDonationUpdated: (minDonation: bigint, event: ethers.ContractEventPayload) => void;
+  PaymentWithdrawn: (payee: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+  RefundIssued: (backer: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+  StretchGoalAdded: (index: bigint, amount: bigint, event: ethers.ContractEventPayload) => void;
+  StretchGoalReached: (index: bigint, amount: bigint, event: ethers.ContractEventPayload) => void;
+  TierAdded: (name: string, amount: bigint, description: string, maxBackers: bigint, deliveryDate: bigint, event: ethers.ContractEventPayload) => void;
+  TierRemoved: (index: bigint, event: ethers.ContractEventPayload) => void;
+  TierUpdated: (index: bigint, name: string, amount: bigint, event: ethers.ContractEventPayload) => void;
+}
+
+export type CrowdFundingErrorName =
+  | 'AlreadyApproved'
+  | 'CampaignIsDeleted'
+  | 'CampaignNotActive'
+  | 'CampaignNotStarted'
+  | 'CampaignNotSuccessful'
+  | 'ClosesAtGoal'
+  | 'ContractPaused'
+  | 'DeadlineNotLater'
+  | 'DeadlineTooFar'
+  | 'DeadlineTooSoon'
+  | 'DeliveryDateInPast'
+  | 'DonationBelowMinimum'
+  | 'EmergencyWithdrawAlreadyRequested'
+  | 'EmergencyWithdrawLocked'
+  | 'ExceedsHardCap'
+  | 'GoalAboveHardCap'
+  | 'GoalAboveStretchGoal'
+  | 'IncorrectAmount'
+  | 'InsufficientBalance'
+  | 'InvalidAmount'
+  | 'InvalidGoal'
+  | 'InvalidHardCap'
+  | 'InvalidMilestones'
+  | 'InvalidTier'
+  | 'MilestoneNotApproved'
+  | 'NoContribution'
+  | 'NoEmergencyWithdrawRequested'
+  | 'NoFundsAvailable'
+  | 'NoMilestonePending'
+  | 'NoPendingPayment'
+  | 'NotOwner'
+  | 'ReentrantCall'
+  | 'RefundNotAvailable'
+  | 'ReleasedByMilestone'
+  | 'StartTimeInPast'
+  | 'StretchGoalAboveHardCap'
+  | 'StretchGoalTooLow'
+  | 'TierHasBackers'
+  | 'TierSoldOut'
+  | 'TokenNotContract'
+  | 'TransferFailed'
+  | 'UnsupportedToken'
+  | 'WrongCurrency';
+
+export interface CrowdFundingContract extends ethers.BaseContract {
+  EMERGENCY_WITHDRAW_DELAY: ContractView<[], bigint>;
+  MAX_DURATION: ContractView<[], bigint>;
+  MIN_DURATION: ContractView<[], bigint>;
+  addStretchGoal: ContractWrite<[_amount: ethers.BigNumberish], void>;
+  addTier: ContractWrite<[_name: string, _description: string, _amount: ethers.BigNumberish, _maxBackers: ethers.BigNumberish, _deliveryDate: ethers.BigNumberish], void>;
+  approveMilestone: ContractWrite<[], void>;
+  backers: ContractView<[arg0: ethers.AddressLike], bigint>;
+  cancelEmergencyWithdraw: ContractWrite<[], void>;
+  currentMilestone: ContractView<[], bigint>;
+  deadline: ContractView<[], bigint>;
+  deleteCampaign: ContractWrite<[], void>;
+  deleted: ContractView<[], boolean>;
+  description: ContractView<[], string>;
+  donate: ContractWrite<[], void>;
+  donateToken: ContractWrite<[_amount: ethers.BigNumberish], void>;
+  donations: ContractView<[arg0: ethers.AddressLike], bigint>;
+  emergencyWithdrawAvailableAt: ContractView<[], bigint>;
+  executeEmergencyWithdraw: ContractWrite<[], void>;
+  extendDeadline: ContractWrite<[_newDeadline: ethers.BigNumberish], void>;
+  factory: ContractView<[], string>;
+  fund: ContractWrite<[_tierIndex: ethers.BigNumberish], void>;
+  fundUntilDeadline: ContractView<[], boolean>;
+  getCampaignStatus: ContractView<[], bigint>;
+  getContractBalance: ContractView<[], bigint>;
+  getMilestones: ContractView<[], CrowdFundingMilestone[]>;
+  getStretchGoals: ContractView<[], bigint[]>;
+  getTierContribution: ContractView<[_backer: ethers.AddressLike, _tierIndex: ethers.BigNumberish], bigint>;
+  getTiers: ContractView<[], CrowdFundingTier[]>;
+  goal: ContractView<[], bigint>;
+  hardCap: ContractView<[], bigint>;
+  hasFundedTier: ContractView<[_backer: ethers.AddressLike, _tierIndex: ethers.BigNumberish], boolean>;
+  milestoneApprovals: ContractView<[arg0: ethers.BigNumberish, arg1: ethers.AddressLike], bigint>;
+  milestones: ContractView<[arg0: ethers.BigNumberish], { title: string; percentage: bigint; approvals: bigint; released: boolean }>;
+  minDonation: ContractView<[], bigint>;
+  name: ContractView<[], string>;
+  owner: ContractView<[], string>;
+  paused: ContractView<[], boolean>;
+  pendingWithdrawals: ContractView<[arg0: ethers.AddressLike], bigint>;
+  refund: ContractWrite<[], void>;
+  releaseMilestone: ContractWrite<[], void>;
+  removeTier: ContractWrite<[_index: ethers.BigNumberish], void>;
+  requestEmergencyWithdraw: ContractWrite<[], void>;
+  setMinDonation: ContractWrite<[_minDonation: ethers.BigNumberish], void>;
+  startTime: ContractView<[], bigint>;
+  state: ContractView<[], bigint>;
+  stretchGoals: ContractView<[arg0: ethers.BigNumberish], bigint>;
+  stretchGoalsReached: ContractView<[], bigint>;
+  tiers: ContractView<[arg0: ethers.BigNumberish], { name: string; amount: bigint; backers: bigint; id: bigint; description: string; maxBackers: bigint; deliveryDate: bigint }>;
+  togglePause: ContractWrite<[], void>;
+  token: ContractView<[], string>;
+  totalDonated: ContractView<[], bigint>;
+  totalPendingWithdrawals: ContractView<[], bigint>;
+  totalTiered: ContractView<[], bigint>;
+  updateCampaignDetails: ContractWrite<[_newName: string, _newDescription: string, _newGoal: ethers.BigNumberish], void>;
+  updateTier: ContractWrite<[_index: ethers.BigNumberish, _name: string, _amount: ethers.BigNumberish], void>;
+  withdraw: ContractWrite<[], void>;
+  withdrawPayments: ContractWrite<[], void>;
+  on<E extends keyof CrowdFundingEventListeners>(event: E, listener: CrowdFundingEventListeners[E]): Promise<this>;
+}
+
+export function connectCrowdFunding(address: string, runner?: ethers.ContractRunner | null): CrowdFundingContract {
+  return new ethers.Contract(address, CROWDFUNDING_ABI, runner) as unknown as CrowdFundingContract;
+}
+
+// A decoded CrowdFunding log, narrowed by event name
+export type CrowdFundingLog = {
+  [E in keyof CrowdFundingEventArgs]: { name: E; args: CrowdFundingEventArgs[E] }
+}[keyof CrowdFundingEventArgs];
+
+export const FACTORY_ABI = [
+  "constructor()",
+  "error CampaignNotFound()",
+  "error FactoryPaused()",
+  "error NotCampaignOwner()",
+  "error NotOwner()",
+  "event CampaignCreated(address indexed campaignAddress, address indexed owner, string name, uint256 creationTime)",
+  "function campaignCount() view returns (uint256)",
+  "function campaigns(uint256) view returns (address campaignAddress, address owner, string name, uint256 creationTime)",
+  "function createCampaign(string _name, string _description, uint256 _goal, uint256 _startTime, uint256 _deadline, address _token, bool _fundUntilDeadline, uint256 _hardCap, string[] _milestoneTitles, uint256[] _milestonePercentages)",
+  "function deleteCampaignFromFactory(address _campaignAddr)",
+  "function getAllCampaigns() view returns ((address campaignAddress, address owner, string name, uint256 creationTime)[])",
+  "function getCampaignsPaginated(uint256 _offset, uint256 _limit) view returns ((address campaignAddress, address owner, string name, uint256 creationTime)[])",
+  "function getUserCampaigns(address _user) view returns ((address campaignAddress, address owner, string name, uint256 creationTime)[])",
+  "function owner() view returns (address)",
+  "function paused() view returns (bool)",
+  "function togglePause()",
+  "function userCampaigns(address, uint256) view returns (address campaignAddress, address owner, string name, uint256 creationTime)"
+];
+
+export interface CrowdFundingFactoryEventArgs {
+  CampaignCreated: { campaignAddress: string; owner: string; name: string; creationTime: bigint };
+}
+
+export interface CrowdFundingFactoryEventListeners {
+  CampaignCreated: (campaignAddress: string, owner: string, name: string, creationTime: bigint, event: ethers.ContractEventPayload) => void;
+}
+
+export type CrowdFundingFactoryErrorName =
+  | 'CampaignNotFound'
+  | 'FactoryPaused'
+  | 'NotCampaignOwner'
+  | 'NotOwner';
+
+export interface CrowdFundingFactoryContract extends ethers.BaseContract {
+  campaignCount: ContractView<[], bigint>;
+  campaigns: ContractView<[arg0: ethers.BigNumberish], { campaignAddress: string; owner: string; name: string; creationTime: bigint }>;
+  createCampaign: ContractWrite<[_name: string, _description: string, _goal: ethers.BigNumberish, _startTime: ethers.BigNumberish, _deadline: ethers.BigNumberish, _token: ethers.AddressLike, _fundUntilDeadline: boolean, _hardCap: ethers.BigNumberish, _milestoneTitles: string[], _milestonePercentages: ethers.BigNumberish[]], void>;
+  deleteCampaignFromFactory: ContractWrite<[_campaignAddr: ethers.AddressLike], void>;
+  getAllCampaigns: ContractView<[], CrowdFundingFactoryCampaign[]>;
+  getCampaignsPaginated: ContractView<[_offset: ethers.BigNumberish, _limit: ethers.BigNumberish], CrowdFundingFactoryCampaign[]>;
+  getUserCampaigns: ContractView<[_user: ethers.AddressLike], CrowdFundingFactoryCampaign[]>;
+  owner: ContractView<[], string>;
+  paused: ContractView<[], boolean>;
+  togglePause: ContractWrite<[], void>;
+  userCampaigns: ContractView<[arg0: ethers.AddressLike, arg1: ethers.BigNumberish], { campaignAddress: string; owner: string; name: string; creationTime: bigint }>;
+  on<E extends keyof CrowdFundingFactoryEventListeners>(event: E, listener: CrowdFundingFactoryEventListeners[E]): Promise<this>;
+}
+
+export function connectCrowdFundingFactory(address: string, runner?: ethers.ContractRunner | null): CrowdFundingFactoryContract {
+  return new ethers.Contract(address, FACTORY_ABI, runner) as unknown as CrowdFundingFactoryContract;
+}
+
+// A decoded CrowdFundingFactory log, narrowed by event name
+export type CrowdFundingFactoryLog = {
+  [E in keyof CrowdFundingFactoryEventArgs]: { name: E; args: CrowdFundingFactoryEventArgs[E] }
+}[keyof CrowdFundingFactoryEventArgs];
@@ -1,59 +1,46 @@
+import { ACTIVE_NETWORK } from "./networks";
+import { CrowdFundingCampaignState } from "./contractTypes";
+
 // Contract ABIs and addresses
-export const FACTORY_ADDRESS = process.env.NEXT_PUBLIC_FACTORY_ADDRESS as string;
-
-export const FACTORY_ABI = [
-  "function createCampaign(string memory _name, string memory _description, uint256 _goal, uint256 _duration) external",
-  "function getUserCampaigns(address _user) external view returns(tuple(address campaignAddress, address owner, string name, uint256 creationTime)[])",
-  "function getAllCampaigns() external view returns(tuple(address campaignAddress, address owner, string name, uint256 creationTime)[])",
-  "function deleteCampaignFromFactory(address _campaignAddr) external",
-  "function togglePause() external",
-  "function paused() public view returns(bool)",
-  "function owner() public view returns(address)",
-  "function campaigns(uint256) public view returns(address campaignAddress, address owner, string memory name, uint256 creationTime)",
-  "function userCampaigns(address, uint256) public view returns(address campaignAddress, address owner, string memory name, uint256 creationTime)",
-  "event CampaignCreated(address indexed campaignAddress, address indexed owner, string name, uint256 creationTime)"
-];
+export const FACTORY_ADDRESS = ACTIVE_NETWORK.factoryAddress;
+
+// JSON-RPC endpoint for read-only access when no wallet is installed
+export const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || ACTIVE_NETWORK.rpcUrls[0];
+
+// Generated from the compiled contracts by scripts/generateContractTypes.ts, together with typed
+// bindings for them; see lib/contractTypes.ts
+export { FACTORY_ABI, CROWDFUNDING_ABI } from "./contractTypes";
 
-export const CROWDFUNDING_ABI = [
+// Mirror CrowdFunding.MIN_DURATION / MAX_DURATION: seconds between a campaign's start and its deadline
+export const MIN_CAMPAIGN_DURATION = 60 * 60;
+export const MAX_CAMPAIGN_DURATION = 365 * 24 * 60 * 60;
+
+// Just the parts of ERC-20 that token campaigns need
+export const ERC20_ABI = [
   "function name() public view returns(string)",
-  "function description() public view returns(string)",
-  "function goal() public view returns(uint256)",
-  "function deadline() public view returns(uint256)",
-  "function owner() public view returns(address)",
-  "function paused() public view returns(bool)",
-  "function deleted() public view returns(bool)",
-  "function state() public view returns(uint8)",
-  "function fund(uint256 _tierIndex) public payable",
-  "function addTier(string memory _name, uint256 _amount) public",
-  "function removeTier(uint256 _index) public",
-  "function withdraw() public",
-  "function emergencyWithdraw() public",
-  "function getContractBalance() public view returns(uint256)",
-  "function refund() public",
-  "function deleteCampaign() public",
-  "function updateCampaignDetails(string memory _newName, string memory _newDescription, uint256 _newGoal) public",
-  "function extendDeadline(uint256 _extendedDays) public",
-  "function hasFundedTier(address _backer, uint256 _tierIndex) public view returns(bool)",
-  "function getTiers() public view returns(tuple(string name, uint256 amount, uint256 backers)[])",
-  "function togglePause() public",
-  "function getCampaignStatus() public view returns(uint8)",
-  "function tiers(uint256) public view returns(string memory name, uint256 amount, uint256 backers)",
-  "function backers(address) public view returns(uint256 totalContribution)",
-  "event CampaignDeleted(address indexed by)",
-  "event CampaignDetailsUpdated(string newName, string newDescription, uint256 newGoal)",
-  "event CampaignPaused(bool paused)",
-  "event CampaignStateChanged(uint8 newState)",
-  "event DeadlineExtended(uint256 newDeadline)",
-  "event EmergencyWithdraw(address indexed owner, uint256 amount)",
-  "event FundReceived(address indexed backer, uint256 amount, uint256 tierIndex)",
-  "event FundsWithdrawn(address indexed owner, uint256 amount)",
-  "event RefundIssued(address indexed backer, uint256 amount)",
-  "event TierAdded(string name, uint256 amount)",
-  "event TierRemoved(uint256 index)"
+  "function symbol() public view returns(string)",
+  "function decimals() public view returns(uint8)",
+  "function balanceOf(address _owner) public view returns(uint256)",
+  "function allowance(address _owner, address _spender) public view returns(uint256)",
+  "function approve(address _spender, uint256 _value) public returns(bool)"
+];
+
+export const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) public payable returns(tuple(bool success, bytes returnData)[] returnData)",
+  "function getBlockNumber() public view returns(uint256 blockNumber)",
+  "function getCurrentBlockTimestamp() public view returns(uint256 timestamp)",
+  "function getEthBalance(address addr) public view returns(uint256 balance)"
 ];
 
 export enum CampaignState {
-  Active = 0,
-  Successful = 1,
-  Failed = 2
+  Active = CrowdFundingCampaignState.Active,
+  Successful = CrowdFundingCampaignState.Successful,
+  Failed = CrowdFundingCampaignState.Failed,
+  // Not stored on-chain: an Active campaign whose startTime has not arrived yet
+  Upcoming = 3
+}
+
+// Contract state as shown in the app, with scheduled campaigns reported as Upcoming
+export function resolveCampaignState(state: number, startTime: number, now: number = Date.now() / 1000): CampaignState {
+  return state === CampaignState.Active && startTime > now ? CampaignState.Upcoming : state;
 }
\ No newline at end of file
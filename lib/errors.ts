@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+import { CROWDFUNDING_ABI, CrowdFundingErrorName, CrowdFundingFactoryErrorName, FACTORY_ABI } from './contractTypes';
+
+export type BlockFundErrorKind =
+  | 'user_rejected'
+  | 'insufficient_funds'
+  | 'nonce'
+  | 'contract_revert'
+  | 'unknown';
+
+/**
+ * What Web3Service.decodeError turns anything a wallet, provider or contract throws into:
+ * message is fit to show as is, kind says what went wrong, and for contract reverts
+ * errorName/args identify the custom error (or the legacy require string, for campaigns
+ * deployed before custom errors).
+ */
+export class BlockFundError extends Error {
+  readonly kind: BlockFundErrorKind;
+  readonly errorName?: string;
+  readonly args?: unknown[];
+  readonly cause?: unknown;
+
+  constructor(message: string, kind: BlockFundErrorKind, options: { errorName?: string; args?: unknown[]; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'BlockFundError';
+    this.kind = kind;
+    this.errorName = options.errorName;
+    this.args = options.args;
+    this.cause = options.cause;
+  }
+}
+
+// The contract a failed call went to. The factory and campaigns share error names such as NotOwner,
+// which mean different things on each
+export type RevertSource = 'campaign' | 'factory';
+
+// Keyed by the generated error names, so a new custom error does not type-check until it has a message
+const CAMPAIGN_ERROR_MESSAGES: Record<CrowdFundingErrorName, string> = {
+  NotOwner: 'Only the campaign owner can do this',
+  ContractPaused: 'This campaign is paused',
+  CampaignNotActive: 'This campaign is no longer accepting contributions',
+  CampaignNotStarted: 'This campaign has not launched yet',
+  CampaignIsDeleted: 'This campaign has been deleted',
+  ReentrantCall: 'The transaction tried to re-enter the campaign contract',
+  TokenNotContract: 'The token address is not a token contract',
+  InvalidHardCap: 'The hard cap must be at least the goal, and only applies when funding until the deadline',
+  StartTimeInPast: 'The launch time is in the past',
+  InvalidMilestones: 'Milestones need a title and a share above 0%, and their shares must add up to 100%',
+  DeadlineTooSoon: 'The deadline must be at least an hour after launch',
+  DeadlineTooFar: 'The deadline must be within a year of launch',
+  DeadlineNotLater: 'The new deadline must be later than the current one',
+  InvalidGoal: 'The goal must be greater than zero',
+  GoalAboveHardCap: 'The goal cannot be above the hard cap',
+  GoalAboveStretchGoal: 'The goal must stay below the first stretch goal',
+  InvalidTier: 'This tier does not exist',
+  IncorrectAmount: 'The amount must match the tier amount exactly',
+  TierSoldOut: 'This tier is sold out',
+  TierHasBackers: 'This tier already has backers',
+  DeliveryDateInPast: 'The delivery date is in the past',
+  InvalidAmount: 'The amount must be greater than zero',
+  DonationBelowMinimum: 'The donation is below the campaign minimum',
+  WrongCurrency: 'This campaign takes a different currency',
+  UnsupportedToken: 'This token charges a fee on transfer, which campaigns do not support',
+  TransferFailed: 'The transfer failed',
+  ExceedsHardCap: 'This contribution would take the campaign past its hard cap',
+  ClosesAtGoal: 'Stretch goals are only available to campaigns funding until the deadline',
+  StretchGoalTooLow: 'The stretch goal must be above the goal, earlier stretch goals and the amount raised',
+  StretchGoalAboveHardCap: 'The stretch goal cannot be above the hard cap',
+  CampaignNotSuccessful: 'The campaign has not reached its goal',
+  ReleasedByMilestone: 'Funds for this campaign are released milestone by milestone',
+  NoFundsAvailable: 'There are no funds to withdraw',
+  InsufficientBalance: 'The campaign does not hold enough funds for this refund',
+  NoContribution: 'You have not contributed to this campaign',
+  NoMilestonePending: 'There is no milestone waiting to be released',
+  AlreadyApproved: 'You have already approved this milestone',
+  MilestoneNotApproved: 'Backers holding more than half of the funds have not approved this milestone yet',
+  RefundNotAvailable: 'Refunds open once the campaign fails or an emergency withdrawal is announced',
+  NoPendingPayment: 'You have no payments waiting to be withdrawn',
+  EmergencyWithdrawAlreadyRequested: 'An emergency withdrawal has already been requested',
+  NoEmergencyWithdrawRequested: 'No emergency withdrawal has been requested',
+  EmergencyWithdrawLocked: 'The emergency withdrawal is still in its waiting period'
+};
+
+const FACTORY_ERROR_MESSAGES: Record<CrowdFundingFactoryErrorName, string> = {
+  NotOwner: 'Only the factory owner can do this',
+  FactoryPaused: 'Campaign creation is paused',
+  CampaignNotFound: 'This campaign is not registered with the factory',
+  NotCampaignOwner: 'Only the campaign owner can do this'
+};
+
+// The factory bubbles up reverts from the campaigns it creates and deletes, so its calls are decoded
+// against both sets of messages, its own taking precedence
+const REVERT_MESSAGES: Record<RevertSource, Record<string, string>> = {
+  campaign: CAMPAIGN_ERROR_MESSAGES,
+  factory: { ...CAMPAIGN_ERROR_MESSAGES, ...FACTORY_ERROR_MESSAGES }
+};
+
+// Errors with the same signature share a selector, so one interface parses reverts from either contract
+const revertInterface = new ethers.Interface([
+  ...CROWDFUNDING_ABI.filter((fragment) => fragment.startsWith('error ')),
+  ...FACTORY_ABI.filter((fragment) => fragment.startsWith('error ') && !CROWDFUNDING_ABI.includes(fragment))
+]);
+
+interface ProviderError {
+  code?: number | string;
+  message?: string;
+  shortMessage?: string;
+  data?: unknown;
+  reason?: string | null;
+  revert?: { name: string; args: unknown[] } | null;
+  info?: { error?: ProviderError };
+  error?: ProviderError;
+}
+
+// Wallets nest the JSON-RPC error differently; walk down to every layer that might carry a code or data
+function errorLayers(error: unknown): ProviderError[] {
+  const layers: ProviderError[] = [];
+  let current = error as ProviderError | undefined;
+  while (current && typeof current === 'object' && layers.length < 5) {
+    layers.push(current);
+    current = current.info?.error ?? current.error;
+  }
+  return layers;
+}
+
+interface DecodedRevert {
+  message: string;
+  errorName: string;
+  args?: unknown[];
+}
+
+function decodeRevert(layers: ProviderError[], source: RevertSource): DecodedRevert | null {
+  const messages = REVERT_MESSAGES[source];
+  for (const layer of layers) {
+    const parsed = layer.revert
+      ?? (typeof layer.data === 'string' && ethers.isHexString(layer.data) && layer.data.length >= 10
+        ? revertInterface.parseError(layer.data)
+        : null);
+    if (parsed && parsed.name in messages) {
+      return {
+        message: messages[parsed.name],
+        errorName: parsed.name,
+        args: [...parsed.args]
+      };
+    }
+
+    // require(..., "reason") from campaigns deployed before custom errors
+    if (layer.reason) {
+      return { message: layer.reason, errorName: layer.reason };
+    }
+  }
+  return null;
+}
+
+export function toBlockFundError(error: unknown, fallback: string = 'Something went wrong', source: RevertSource = 'campaign'): BlockFundError {
+  if (error instanceof BlockFundError) return error;
+
+  const layers = errorLayers(error);
+  const matches = (pattern: RegExp) =>
+    layers.some((layer) => pattern.test(`${layer.shortMessage ?? ''} ${layer.message ?? ''}`));
+
+  if (ethers.isError(error, 'ACTION_REJECTED') || layers.some((layer) => layer.code === 4001)) {
+    return new BlockFundError('You rejected the request in your wallet', 'user_rejected', { cause: error });
+  }
+
+  // Before the message checks below: legacy revert strings like "Insufficient funds" would match them
+  const revert = decodeRevert(layers, source);
+  if (revert) {
+    return new BlockFundError(revert.message, 'contract_revert', { errorName: revert.errorName, args: revert.args, cause: error });
+  }
+
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS') || matches(/insufficient funds/i)) {
+    return new BlockFundError('Your wallet does not have enough funds to cover this transaction and its gas', 'insufficient_funds', { cause: error });
+  }
+
+  if (ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED') || matches(/nonce/i)) {
+    return new BlockFundError('Your wallet has a pending or conflicting transaction. Wait for it to confirm, or reset the account\'s activity in your wallet, then try again', 'nonce', { cause: error });
+  }
+
+  // ethers keeps the readable part of its messages in shortMessage
+  const message = layers[0]?.shortMessage ?? (error instanceof Error ? error.message : fallback);
+  return new BlockFundError(message || fallback, 'unknown', { cause: error });
+}
@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+
+export type FeePreset = 'slow' | 'normal' | 'fast';
+
+// Each preset scales the priority fee (or, on chains without EIP-1559, the gas price) the provider suggests
+export const FEE_PRESETS: Record<FeePreset, { label: string; percent: number }> = {
+  slow: { label: 'Slow', percent: 80 },
+  normal: { label: 'Normal', percent: 100 },
+  fast: { label: 'Fast', percent: 150 }
+};
+
+export const DEFAULT_FEE_PRESET: FeePreset = 'normal';
+
+// What a preset becomes on the transaction: EIP-1559 fees where the chain supports them, a gas price otherwise
+export type FeeOverrides =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+export interface FeeQuote {
+  // Per gas, in gwei; maxPriorityFeePerGas is null on chains without EIP-1559
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string | null;
+  // Most the transaction can cost in gas (gas limit times the max fee), in the native coin
+  maxNetworkFee: string;
+  // maxNetworkFee plus any native coin the transaction sends along
+  totalCost: string;
+}
+
+export interface FeeEstimate {
+  gasLimit: string;
+  // Native coin sent with the transaction, e.g. a contribution to a native-coin campaign
+  value: string;
+  // Native coin symbol of the chain the transaction goes to
+  symbol: string;
+  // A token approval has to go through first; the estimate covers the approval only, since
+  // the contribution cannot be simulated until the allowance is in place
+  approvalFirst: boolean;
+  quotes: Record<FeePreset, FeeQuote>;
+}
+
+const scale = (amount: bigint, percent: number) => amount * BigInt(percent) / BigInt(100);
+
+export function feeOverrides(feeData: ethers.FeeData, preset: FeePreset): FeeOverrides {
+  const { percent } = FEE_PRESETS[preset];
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    const priorityFee = scale(feeData.maxPriorityFeePerGas, percent);
+    // The suggested max fee is the base fee headroom plus the suggested tip; swap in the scaled tip
+    return {
+      maxFeePerGas: feeData.maxFeePerGas - feeData.maxPriorityFeePerGas + priorityFee,
+      maxPriorityFeePerGas: priorityFee
+    };
+  }
+  if (feeData.gasPrice !== null) {
+    return { gasPrice: scale(feeData.gasPrice, percent) };
+  }
+  throw new Error('Could not fetch network fees');
+}
+
+export function quoteFees(gasLimit: bigint, value: bigint, feeData: ethers.FeeData): Record<FeePreset, FeeQuote> {
+  const quote = (preset: FeePreset): FeeQuote => {
+    const overrides = feeOverrides(feeData, preset);
+    const pricePerGas = 'gasPrice' in overrides ? overrides.gasPrice : overrides.maxFeePerGas;
+    const networkFee = gasLimit * pricePerGas;
+    return {
+      maxFeePerGas: ethers.formatUnits(pricePerGas, 'gwei'),
+      maxPriorityFeePerGas: 'maxPriorityFeePerGas' in overrides ? ethers.formatUnits(overrides.maxPriorityFeePerGas, 'gwei') : null,
+      maxNetworkFee: ethers.formatEther(networkFee),
+      totalCost: ethers.formatEther(networkFee + value)
+    };
+  };
+  return { slow: quote('slow'), normal: quote('normal'), fast: quote('fast') };
+}
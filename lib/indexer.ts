@@ -0,0 +1,538 @@
+import { ethers } from 'ethers';
+import { FACTORY_ABI, CROWDFUNDING_ABI, CampaignState, resolveCampaignState } from './contracts';
+import { CrowdFundingFactoryLog, CrowdFundingLog, connectCrowdFunding } from './contractTypes';
+import { NetworkConfig } from './networks';
+import { TokenInfo, fetchTokenInfo } from './tokens';
+
+/**
+ * Campaign Indexer
+ *
+ * Replays CampaignCreated from the factory plus every CrowdFunding event from the network's
+ * deploymentBlock onwards, in chunked getLogs ranges, and folds them into a snapshot of each
+ * campaign's state. The snapshot is saved after every chunk together with the last processed
+ * block, so the next sync only fetches logs for blocks it has not seen yet.
+ *
+ * Storage is pluggable: IndexedDBIndexStorage in the browser, a JSON file for the Node script
+ * in scripts/indexCampaigns.ts. Amounts are kept as strings in the token's smallest unit (wei for
+ * native campaigns) so snapshots survive JSON.
+ */
+
+export interface IndexedTier {
+  name: string;
+  amount: string;
+  backers: number;
+  id: number;
+  description: string;
+  maxBackers: number;
+  deliveryDate: number;
+}
+
+export interface IndexedCampaign {
+  campaignAddress: string;
+  chainId: number;
+  owner: string;
+  name: string;
+  description: string;
+  goal: string;
+  deadline: number;
+  startTime: number;
+  // Currency the amounts below are denominated in
+  token: TokenInfo;
+  fundUntilDeadline: boolean;
+  // '0' when the campaign has no hard cap
+  hardCap: string;
+  stretchGoals: string[];
+  creationTime: number;
+  creationBlock: number;
+  paused: boolean;
+  deleted: boolean;
+  state: number;
+  balance: string;
+  totalRaised: string;
+  totalRefunded: string;
+  totalWithdrawn: string;
+  // Raised through tiers and through donate(), net of refunds
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  tiers: IndexedTier[];
+  // Tier ids are handed out sequentially by addTier, so they can be replayed from TierAdded
+  nextTierId: number;
+  // Current contribution per backer; refunds reset it to zero
+  contributions: Record<string, string>;
+  // Current contribution per backer per tier id, mirroring the contract's ledger
+  tierContributions: Record<string, Record<number, string>>;
+  // Current donate() total per backer, so refunds can be split between tiered and donated
+  donations: Record<string, string>;
+  lastEventBlock: number;
+}
+
+export interface CampaignIndexSnapshot {
+  version: number;
+  chainId: number;
+  factoryAddress: string;
+  lastProcessedBlock: number;
+  campaigns: Record<string, IndexedCampaign>;
+}
+
+export interface IndexStorage {
+  load(chainId: number): Promise<CampaignIndexSnapshot | null>;
+  save(snapshot: CampaignIndexSnapshot): Promise<void>;
+}
+
+export interface SyncProgress {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  targetBlock: number;
+  campaigns: number;
+}
+
+interface CampaignIndexerOptions {
+  // Blocks per getLogs request; halved automatically when the RPC rejects a range
+  chunkSize?: number;
+  // Stay this many blocks behind the head to avoid indexing blocks that may be reorged
+  confirmations?: number;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+// Bump when the snapshot shape or the replay rules change so stored indexes are rebuilt
+const INDEX_VERSION = 8;
+
+const DEFAULT_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 100;
+// Public RPCs cap the number of addresses a single eth_getLogs filter may carry
+const ADDRESSES_PER_LOG_QUERY = 100;
+
+const CAMPAIGN_EVENTS = [
+  'FundReceived', 'DonationReceived', 'MinDonationUpdated', 'RefundIssued', 'TierAdded', 'TierRemoved', 'TierUpdated', 'FundsWithdrawn', 'MilestoneReleased', 'EmergencyWithdraw',
+  'CampaignStateChanged', 'CampaignPaused', 'DeadlineExtended', 'CampaignDetailsUpdated', 'CampaignDeleted', 'StretchGoalAdded'
+];
+
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+const campaignInterface = new ethers.Interface(CROWDFUNDING_ABI);
+
+const CAMPAIGN_TOPICS = CAMPAIGN_EVENTS.map((eventName) => campaignInterface.getEvent(eventName)!.topicHash);
+
+export class CampaignIndexer {
+  private snapshot: CampaignIndexSnapshot | null = null;
+  private syncing: Promise<CampaignIndexSnapshot> | null = null;
+  private chunkSize: number;
+  private confirmations: number;
+  private onProgress?: (progress: SyncProgress) => void;
+
+  constructor(
+    private network: NetworkConfig,
+    private provider: ethers.Provider,
+    private storage: IndexStorage,
+    options: CampaignIndexerOptions = {}
+  ) {
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.confirmations = options.confirmations ?? 0;
+    this.onProgress = options.onProgress;
+  }
+
+  // Concurrent callers share the sync that is already running
+  sync(): Promise<CampaignIndexSnapshot> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  async getSnapshot(): Promise<CampaignIndexSnapshot> {
+    if (!this.snapshot) {
+      this.snapshot = await this.loadSnapshot();
+    }
+    return this.snapshot;
+  }
+
+  private async loadSnapshot(): Promise<CampaignIndexSnapshot> {
+    const stored = await this.storage.load(this.network.chainId);
+
+    // A redeployed factory or an older snapshot format starts a fresh index
+    if (
+      stored &&
+      stored.version === INDEX_VERSION &&
+      stored.factoryAddress.toLowerCase() === this.network.factoryAddress.toLowerCase()
+    ) {
+      return stored;
+    }
+
+    return {
+      version: INDEX_VERSION,
+      chainId: this.network.chainId,
+      factoryAddress: this.network.factoryAddress,
+      lastProcessedBlock: this.network.deploymentBlock - 1,
+      campaigns: {}
+    };
+  }
+
+  private async runSync(): Promise<CampaignIndexSnapshot> {
+    const snapshot = await this.getSnapshot();
+    const latestBlock = await this.provider.getBlockNumber();
+    const targetBlock = latestBlock - this.confirmations;
+
+    let fromBlock = snapshot.lastProcessedBlock + 1;
+    while (fromBlock <= targetBlock) {
+      const toBlock = Math.min(fromBlock + this.chunkSize - 1, targetBlock);
+
+      try {
+        await this.processRange(snapshot, fromBlock, toBlock);
+      } catch (error) {
+        if (this.chunkSize <= MIN_CHUNK_SIZE) {
+          throw error;
+        }
+        // Most providers reject wide ranges or too many results - retry with a smaller window
+        this.chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(this.chunkSize / 2));
+        console.warn(`getLogs failed for blocks ${fromBlock}-${toBlock}, retrying with chunks of ${this.chunkSize}:`, error);
+        continue;
+      }
+
+      snapshot.lastProcessedBlock = toBlock;
+      await this.storage.save(snapshot);
+
+      this.onProgress?.({
+        chainId: this.network.chainId,
+        fromBlock,
+        toBlock,
+        targetBlock,
+        campaigns: Object.keys(snapshot.campaigns).length
+      });
+
+      fromBlock = toBlock + 1;
+    }
+
+    return snapshot;
+  }
+
+  // Applies a block range to a working copy and only commits it once every query succeeded
+  private async processRange(snapshot: CampaignIndexSnapshot, fromBlock: number, toBlock: number) {
+    const campaigns: Record<string, IndexedCampaign> = structuredClone(snapshot.campaigns);
+
+    const creationLogs = await this.provider.getLogs({
+      address: this.network.factoryAddress,
+      topics: [factoryInterface.getEvent('CampaignCreated')!.topicHash],
+      fromBlock,
+      toBlock
+    });
+
+    for (const log of creationLogs) {
+      const parsed = factoryInterface.parseLog(log);
+      if (!parsed) continue;
+      const campaign = await this.createIndexedCampaign(parsed as unknown as CrowdFundingFactoryLog, log.blockNumber);
+      campaigns[campaign.campaignAddress] = campaign;
+    }
+
+    const addresses = Object.keys(campaigns);
+    const campaignLogs: ethers.Log[] = [];
+    for (let i = 0; i < addresses.length; i += ADDRESSES_PER_LOG_QUERY) {
+      campaignLogs.push(...await this.provider.getLogs({
+        address: addresses.slice(i, i + ADDRESSES_PER_LOG_QUERY),
+        topics: [CAMPAIGN_TOPICS],
+        fromBlock,
+        toBlock
+      }));
+    }
+
+    campaignLogs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .forEach((log) => {
+        const campaign = campaigns[ethers.getAddress(log.address)];
+        const parsed = campaignInterface.parseLog(log);
+        if (campaign && parsed) {
+          // parseLog decodes against CROWDFUNDING_ABI, which CrowdFundingLog is generated from
+          applyCampaignEvent(campaign, parsed as unknown as CrowdFundingLog, log.blockNumber);
+        }
+      });
+
+    snapshot.campaigns = campaigns;
+  }
+
+  /**
+   * Description, goal, deadline, start time, token and funding policy are set in the constructor without an event, so they are read
+   * once when the campaign is discovered. Later DetailsUpdated/DeadlineExtended events in the
+   * replay overwrite them, which leaves the latest value in place by the end of the sync.
+   */
+  private async createIndexedCampaign(event: CrowdFundingFactoryLog, blockNumber: number): Promise<IndexedCampaign> {
+    const campaignAddress = ethers.getAddress(event.args.campaignAddress);
+    const contract = connectCrowdFunding(campaignAddress, this.provider);
+    const [description, goal, deadline, startTime, tokenAddress, fundUntilDeadline, hardCap] = await Promise.all([
+      contract.description(),
+      contract.goal(),
+      contract.deadline(),
+      // Campaigns deployed before scheduled launches opened at creation
+      contract.startTime().catch(() => event.args.creationTime),
+      // Campaigns deployed before token support raise the native coin
+      contract.token().catch(() => ethers.ZeroAddress),
+      // Campaigns deployed before funding policies closed at their goal
+      contract.fundUntilDeadline().catch(() => false),
+      contract.hardCap().catch(() => BigInt(0))
+    ]);
+    const token = await fetchTokenInfo(this.provider, tokenAddress, this.network);
+
+    return {
+      campaignAddress,
+      chainId: this.network.chainId,
+      owner: event.args.owner,
+      name: event.args.name,
+      description,
+      goal: goal.toString(),
+      deadline: Number(deadline),
+      startTime: Number(startTime),
+      token,
+      fundUntilDeadline,
+      hardCap: hardCap.toString(),
+      stretchGoals: [],
+      creationTime: Number(event.args.creationTime),
+      creationBlock: blockNumber,
+      paused: false,
+      deleted: false,
+      state: CampaignState.Active,
+      balance: '0',
+      totalRaised: '0',
+      totalRefunded: '0',
+      totalWithdrawn: '0',
+      tieredTotal: '0',
+      donationTotal: '0',
+      minDonation: '0',
+      tiers: [],
+      nextTierId: 0,
+      contributions: {},
+      tierContributions: {},
+      donations: {},
+      lastEventBlock: blockNumber
+    };
+  }
+}
+
+// Mirrors the storage writes each CrowdFunding function makes alongside its event
+function applyCampaignEvent(campaign: IndexedCampaign, event: CrowdFundingLog, blockNumber: number) {
+  const add = (a: string, b: bigint) => (BigInt(a) + b).toString();
+  const sub = (a: string, b: bigint) => (BigInt(a) - b).toString();
+
+  switch (event.name) {
+    case 'FundReceived': {
+      const { backer, amount, tierIndex } = event.args;
+      campaign.balance = add(campaign.balance, amount);
+      campaign.totalRaised = add(campaign.totalRaised, amount);
+      campaign.tieredTotal = add(campaign.tieredTotal, amount);
+      campaign.contributions[backer] = add(campaign.contributions[backer] ?? '0', amount);
+
+      const tier = campaign.tiers[Number(tierIndex)];
+      if (tier) {
+        const ledger = campaign.tierContributions[backer] ??= {};
+        // backers counts unique accounts per tier
+        if (BigInt(ledger[tier.id] ?? '0') === BigInt(0)) tier.backers++;
+        ledger[tier.id] = add(ledger[tier.id] ?? '0', amount);
+      }
+      break;
+    }
+    case 'DonationReceived': {
+      const { backer, amount } = event.args;
+      campaign.balance = add(campaign.balance, amount);
+      campaign.totalRaised = add(campaign.totalRaised, amount);
+      campaign.donationTotal = add(campaign.donationTotal, amount);
+      campaign.contributions[backer] = add(campaign.contributions[backer] ?? '0', amount);
+      campaign.donations[backer] = add(campaign.donations[backer] ?? '0', amount);
+      break;
+    }
+    case 'MinDonationUpdated':
+      campaign.minDonation = event.args.minDonation.toString();
+      break;
+    case 'RefundIssued': {
+      const { backer, amount } = event.args;
+      campaign.balance = sub(campaign.balance, amount);
+      campaign.totalRefunded = add(campaign.totalRefunded, amount);
+      campaign.contributions[backer] = '0';
+
+      const donated = BigInt(campaign.donations[backer] ?? '0');
+      campaign.donationTotal = sub(campaign.donationTotal, donated);
+      campaign.tieredTotal = sub(campaign.tieredTotal, amount - donated);
+      delete campaign.donations[backer];
+
+      const ledger = campaign.tierContributions[backer] ?? {};
+      campaign.tiers.forEach((tier) => {
+        if (BigInt(ledger[tier.id] ?? '0') > BigInt(0)) tier.backers--;
+      });
+      delete campaign.tierContributions[backer];
+      break;
+    }
+    case 'FundsWithdrawn':
+    case 'MilestoneReleased':
+    case 'EmergencyWithdraw':
+      campaign.balance = sub(campaign.balance, event.args.amount);
+      campaign.totalWithdrawn = add(campaign.totalWithdrawn, event.args.amount);
+      break;
+    case 'TierAdded':
+      campaign.tiers.push({
+        name: event.args.name,
+        amount: event.args.amount.toString(),
+        backers: 0,
+        id: campaign.nextTierId++,
+        description: event.args.description,
+        maxBackers: Number(event.args.maxBackers),
+        deliveryDate: Number(event.args.deliveryDate)
+      });
+      break;
+    case 'TierRemoved': {
+      // removeTier swaps the last tier into the removed slot
+      const index = Number(event.args.index);
+      const last = campaign.tiers.pop();
+      if (last && index < campaign.tiers.length) {
+        campaign.tiers[index] = last;
+      }
+      break;
+    }
+    case 'TierUpdated': {
+      const tier = campaign.tiers[Number(event.args.index)];
+      if (tier) {
+        tier.name = event.args.name;
+        tier.amount = event.args.amount.toString();
+      }
+      break;
+    }
+    case 'CampaignStateChanged':
+      campaign.state = Number(event.args.newState);
+      break;
+    case 'CampaignPaused':
+      campaign.paused = event.args.paused;
+      break;
+    case 'DeadlineExtended':
+      campaign.deadline = Number(event.args.newDeadline);
+      break;
+    case 'CampaignDetailsUpdated':
+      campaign.name = event.args.newName;
+      campaign.description = event.args.newDescription;
+      campaign.goal = event.args.newGoal.toString();
+      break;
+    case 'CampaignDeleted':
+      campaign.deleted = true;
+      campaign.state = CampaignState.Failed;
+      break;
+    case 'StretchGoalAdded':
+      campaign.stretchGoals.push(event.args.amount.toString());
+      break;
+  }
+
+  campaign.lastEventBlock = blockNumber;
+}
+
+/**
+ * getLogs over an arbitrarily long block range, split into windows the provider accepts.
+ * Windows are halved on failure, like CampaignIndexer.sync, down to MIN_CHUNK_SIZE, and long
+ * address lists are split into groups of ADDRESSES_PER_LOG_QUERY.
+ */
+export async function getLogsInChunks(
+  provider: ethers.Provider,
+  filter: { address: string | string[]; topics?: Array<string | string[] | null> },
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+  const addressGroups: Array<string | string[]> = [];
+  if (Array.isArray(filter.address)) {
+    for (let i = 0; i < filter.address.length; i += ADDRESSES_PER_LOG_QUERY) {
+      addressGroups.push(filter.address.slice(i, i + ADDRESSES_PER_LOG_QUERY));
+    }
+  } else {
+    addressGroups.push(filter.address);
+  }
+
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    try {
+      const chunkLogs: ethers.Log[] = [];
+      for (const address of addressGroups) {
+        chunkLogs.push(...await provider.getLogs({ ...filter, address, fromBlock: start, toBlock: end }));
+      }
+      logs.push(...chunkLogs);
+      start = end + 1;
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) {
+        throw error;
+      }
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+    }
+  }
+
+  return logs;
+}
+
+// Same shape Web3Service.getCampaignDetails returns, so pages can use either source
+export function toCampaignDetails(campaign: IndexedCampaign) {
+  const format = (value: string) => ethers.formatUnits(value, campaign.token.decimals);
+  return {
+    name: campaign.name,
+    description: campaign.description,
+    goal: format(campaign.goal),
+    deadline: campaign.deadline,
+    startTime: campaign.startTime,
+    owner: campaign.owner,
+    paused: campaign.paused,
+    state: resolveCampaignState(campaign.state, campaign.startTime),
+    balance: format(campaign.balance),
+    tieredTotal: format(campaign.tieredTotal),
+    donationTotal: format(campaign.donationTotal),
+    minDonation: format(campaign.minDonation),
+    token: campaign.token,
+    fundUntilDeadline: campaign.fundUntilDeadline,
+    hardCap: format(campaign.hardCap),
+    stretchGoals: campaign.stretchGoals.map(format),
+    tiers: campaign.tiers.map((tier) => ({
+      name: tier.name,
+      amount: format(tier.amount),
+      backers: tier.backers,
+      id: tier.id,
+      description: tier.description,
+      maxBackers: tier.maxBackers,
+      deliveryDate: tier.deliveryDate
+    }))
+  };
+}
+
+// ---------------- Browser storage ---------------- //
+
+const INDEXED_DB_NAME = 'blockfund-campaign-index';
+const INDEXED_DB_STORE = 'snapshots';
+
+export class IndexedDBIndexStorage implements IndexStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(INDEXED_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(INDEXED_DB_STORE, { keyPath: 'chainId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  async load(chainId: number): Promise<CampaignIndexSnapshot | null> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(INDEXED_DB_STORE, 'readonly').objectStore(INDEXED_DB_STORE).get(chainId);
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(snapshot: CampaignIndexSnapshot): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(INDEXED_DB_STORE, 'readwrite');
+      transaction.objectStore(INDEXED_DB_STORE).put(snapshot);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
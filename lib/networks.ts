@@ -0,0 +1,98 @@
+// Network registry - every chain the dApp knows how to talk to
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  blockExplorerUrls: string[] | null;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  factoryAddress: string;
+  deploymentBlock: number;
+  multicallAddress: string;
+}
+
+const ETHER = { name: "Ethereum", symbol: "ETH", decimals: 18 };
+
+// Canonical Multicall3, deployed at the same address on most public chains
+const CANONICAL_MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// NEXT_PUBLIC_* variables must be referenced literally so Next.js can inline them
+export const NETWORKS: Record<number, NetworkConfig> = {
+  31337: {
+    chainId: 31337,
+    name: "Localhost 8545",
+    rpcUrls: ["http://127.0.0.1:8545"],
+    blockExplorerUrls: null,
+    nativeCurrency: ETHER,
+    // First contract deployed by the default Hardhat account
+    factoryAddress: process.env.NEXT_PUBLIC_LOCALHOST_FACTORY_ADDRESS || "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    deploymentBlock: 0,
+    // Deployed right after the factory by the Ignition module
+    multicallAddress: process.env.NEXT_PUBLIC_LOCALHOST_MULTICALL_ADDRESS || "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+  },
+  17000: {
+    chainId: 17000,
+    name: "Holesky Testnet",
+    rpcUrls: ["https://ethereum-holesky.publicnode.com"],
+    blockExplorerUrls: ["https://holesky.etherscan.io/"],
+    nativeCurrency: ETHER,
+    factoryAddress: process.env.NEXT_PUBLIC_HOLESKY_FACTORY_ADDRESS || "0xe68969F12595A6155d85E33F6eA900ECa206b2D8",
+    deploymentBlock: Number(process.env.NEXT_PUBLIC_HOLESKY_DEPLOYMENT_BLOCK || 0),
+    multicallAddress: CANONICAL_MULTICALL3,
+  },
+  11155111: {
+    chainId: 11155111,
+    name: "Sepolia Testnet",
+    rpcUrls: ["https://ethereum-sepolia.publicnode.com"],
+    blockExplorerUrls: ["https://sepolia.etherscan.io/"],
+    nativeCurrency: ETHER,
+    factoryAddress: process.env.NEXT_PUBLIC_SEPOLIA_FACTORY_ADDRESS || "",
+    deploymentBlock: Number(process.env.NEXT_PUBLIC_SEPOLIA_DEPLOYMENT_BLOCK || 0),
+    multicallAddress: CANONICAL_MULTICALL3,
+  },
+};
+
+const DEFAULT_CHAIN_ID = 17000;
+
+function resolveActiveChainId(): number {
+  const configured = Number(process.env.NEXT_PUBLIC_CHAIN_ID);
+  if (NETWORKS[configured]) {
+    return configured;
+  }
+
+  // Older setups only set NEXT_PUBLIC_FACTORY_ADDRESS, so look it up in the registry
+  const legacyFactory = process.env.NEXT_PUBLIC_FACTORY_ADDRESS?.toLowerCase();
+  const match = Object.values(NETWORKS).find(
+    (network) => network.factoryAddress && network.factoryAddress.toLowerCase() === legacyFactory
+  );
+  return match ? match.chainId : DEFAULT_CHAIN_ID;
+}
+
+const activeBase = NETWORKS[resolveActiveChainId()];
+
+// The network campaigns are created on and wallets are asked to switch to
+export const ACTIVE_NETWORK: NetworkConfig = {
+  ...activeBase,
+  factoryAddress: process.env.NEXT_PUBLIC_FACTORY_ADDRESS || activeBase.factoryAddress,
+};
+
+// Chains aggregated into the campaign list, e.g. NEXT_PUBLIC_CAMPAIGN_CHAIN_IDS=31337,17000
+export const CAMPAIGN_NETWORKS: NetworkConfig[] = (process.env.NEXT_PUBLIC_CAMPAIGN_CHAIN_IDS || "")
+  .split(",")
+  .map((id) => getNetwork(Number(id.trim())))
+  .filter((network): network is NetworkConfig => !!network && !!network.factoryAddress);
+
+if (CAMPAIGN_NETWORKS.length === 0) {
+  CAMPAIGN_NETWORKS.push(ACTIVE_NETWORK);
+}
+
+export function getNetwork(chainId: number): NetworkConfig | undefined {
+  return chainId === ACTIVE_NETWORK.chainId ? ACTIVE_NETWORK : NETWORKS[chainId];
+}
+
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
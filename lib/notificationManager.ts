@@ -12,6 +12,11 @@ interface Data {
   owner?: string;
   paused?: boolean;
   newDeadline?: string | number | Date;
+  availableAt?: number;
+  weight?: string;
+  // Currency of amount/weight; the native coin when absent
+  symbol?: string;
+  hash?: string;
 }
 
 class NotificationManager {
@@ -24,12 +29,16 @@ class NotificationManager {
         return `${type}_${data.campaignAddress}`;
       case 'campaign_funded':
         return `${type}_${campaignAddress}_${data.backer}_${data.amount}_${data.tierIndex}`;
+      case 'donation_received':
+        return `${type}_${campaignAddress}_${data.backer}_${data.amount}`;
       case 'campaign_state_changed':
         return `${type}_${campaignAddress}_${data.newState}`;
       case 'tier_added':
         return `${type}_${campaignAddress}_${data.name}_${data.amount}`;
       case 'tier_removed':
         return `${type}_${campaignAddress}_${data.index}`;
+      case 'tier_updated':
+        return `${type}_${campaignAddress}_${data.index}_${data.name}_${data.amount}`;
       case 'funds_withdrawn':
         return `${type}_${campaignAddress}_${data.owner}_${data.amount}`;
       case 'refund_issued':
@@ -44,6 +53,22 @@ class NotificationManager {
         return `${type}_${campaignAddress}`;
       case 'emergency_withdraw':
         return `${type}_${campaignAddress}_${data.owner}_${data.amount}`;
+      case 'emergency_withdraw_requested':
+        return `${type}_${campaignAddress}_${data.availableAt}`;
+      case 'emergency_withdraw_cancelled':
+        return `${type}_${campaignAddress}`;
+      case 'milestone_approved':
+        return `${type}_${campaignAddress}_${data.index}_${data.backer}`;
+      case 'milestone_released':
+        return `${type}_${campaignAddress}_${data.index}`;
+      case 'stretch_goal_added':
+      case 'stretch_goal_reached':
+        return `${type}_${campaignAddress}_${data.index}`;
+      case 'transaction_confirmed':
+      case 'transaction_failed':
+      case 'transaction_replaced':
+      case 'transaction_dropped':
+        return `${type}_${data.hash}`;
       default:
         return `${type}_${campaignAddress || 'unknown'}_${Date.now()}`;
     }
@@ -97,7 +122,11 @@ class NotificationManager {
         break;
 
       case 'campaign_funded':
-        toast.success(this.createNotificationContent(address, `Campaign funded with ${data.amount} ETH!`));
+        toast.success(this.createNotificationContent(address, `Campaign funded with ${data.amount} ${data.symbol ?? 'ETH'}!`));
+        break;
+
+      case 'donation_received':
+        toast.success(this.createNotificationContent(address, `Campaign received a ${data.amount} ${data.symbol ?? 'ETH'} donation!`));
         break;
 
       case 'campaign_state_changed':
@@ -109,19 +138,23 @@ class NotificationManager {
         break;
 
       case 'tier_added':
-        toast.success(this.createNotificationContent(address, `New tier added: ${data.name} (${data.amount} ETH)`));
+        toast.success(this.createNotificationContent(address, `New tier added: ${data.name} (${data.amount} ${data.symbol ?? 'ETH'})`));
         break;
 
       case 'tier_removed':
         toast(this.createNotificationContent(address, `Tier removed from campaign`));
         break;
 
+      case 'tier_updated':
+        toast(this.createNotificationContent(address, `Tier updated: ${data.name} (${data.amount} ${data.symbol ?? 'ETH'})`));
+        break;
+
       case 'funds_withdrawn':
-        toast.success(this.createNotificationContent(address, `Campaign owner withdrew ${data.amount} ETH`));
+        toast.success(this.createNotificationContent(address, `Campaign owner withdrew ${data.amount} ${data.symbol ?? 'ETH'}`));
         break;
 
       case 'refund_issued':
-        toast(this.createNotificationContent(address, `Refund issued: ${data.amount} ETH`));
+        toast(this.createNotificationContent(address, `Refund issued: ${data.amount} ${data.symbol ?? 'ETH'}`));
         break;
 
       case 'campaign_paused':
@@ -150,7 +183,59 @@ class NotificationManager {
         break;
 
       case 'emergency_withdraw':
-        toast.error(this.createNotificationContent(address, `Emergency withdrawal: ${data.amount} ETH`));
+        toast.error(this.createNotificationContent(address, `Emergency withdrawal: ${data.amount} ${data.symbol ?? 'ETH'}`));
+        break;
+
+      case 'emergency_withdraw_requested':
+        if (typeof data.availableAt === 'number') {
+          const availableDate = new Date(data.availableAt * 1000);
+          // Backers need to see this in time to claim a refund before the owner can execute it
+          toast.error(
+            this.createNotificationContent(
+              address,
+              `Owner requested an emergency withdrawal, executable from ${availableDate.toLocaleString()}. Backers can claim refunds until then.`
+            ),
+            { duration: 10000 }
+          );
+        } else {
+          console.warn('Invalid availableAt received for emergency_withdraw_requested notification:', data.availableAt);
+        }
+        break;
+
+      case 'emergency_withdraw_cancelled':
+        toast.success(this.createNotificationContent(address, `Emergency withdrawal request cancelled`));
+        break;
+
+      case 'milestone_approved':
+        toast(this.createNotificationContent(address, `Milestone #${Number(data.index) + 1} approved by a backer (${data.weight} ${data.symbol ?? 'ETH'})`));
+        break;
+
+      case 'milestone_released':
+        toast.success(this.createNotificationContent(address, `Milestone #${Number(data.index) + 1} released: ${data.amount} ${data.symbol ?? 'ETH'}`));
+        break;
+
+      case 'stretch_goal_added':
+        toast(this.createNotificationContent(address, `New stretch goal: ${data.amount} ${data.symbol ?? 'ETH'}`));
+        break;
+
+      case 'stretch_goal_reached':
+        toast.success(this.createNotificationContent(address, `Stretch goal #${Number(data.index) + 1} reached: ${data.amount} ${data.symbol ?? 'ETH'} raised!`));
+        break;
+
+      case 'transaction_confirmed':
+        toast.success(this.createNotificationContent(address, `${data.name} confirmed`));
+        break;
+
+      case 'transaction_failed':
+        toast.error(this.createNotificationContent(address, `${data.name} reverted on-chain`));
+        break;
+
+      case 'transaction_replaced':
+        toast.error(this.createNotificationContent(address, `${data.name} was replaced or cancelled in your wallet`));
+        break;
+
+      case 'transaction_dropped':
+        toast.error(this.createNotificationContent(address, `${data.name} was dropped before it was mined`));
         break;
 
       default:
@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI } from './contracts';
+import { NetworkConfig } from './networks';
+
+// The currency a campaign raises in; the zero address stands for the chain's native coin
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export function isNativeToken(tokenAddress: string): boolean {
+  return tokenAddress === ethers.ZeroAddress;
+}
+
+export function nativeToken(network: NetworkConfig): TokenInfo {
+  return {
+    address: ethers.ZeroAddress,
+    symbol: network.nativeCurrency.symbol,
+    decimals: network.nativeCurrency.decimals
+  };
+}
+
+export async function fetchTokenInfo(
+  runner: ethers.ContractRunner,
+  tokenAddress: string,
+  network: NetworkConfig
+): Promise<TokenInfo> {
+  if (isNativeToken(tokenAddress)) {
+    return nativeToken(network);
+  }
+
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, runner);
+  try {
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { address: ethers.getAddress(tokenAddress), symbol, decimals: Number(decimals) };
+  } catch (error) {
+    console.error(`Failed to read token ${tokenAddress}:`, error);
+    throw new Error('Not an ERC-20 token');
+  }
+}
@@ -0,0 +1,220 @@
+import { ethers } from 'ethers';
+import { notificationManager } from './notificationManager';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  // Contract the transaction calls
+  to: string;
+  nonce: number;
+  // Block the transaction was sent at; replacement scans start here after a reload
+  startBlock: number;
+  // What the transaction does, e.g. "Withdraw funds"
+  intent: string;
+  // Campaign the transaction acts on, when there is one
+  campaignAddress?: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  settledAt?: number;
+  // Set when the wallet sped up or cancelled the transaction under another hash
+  replacedBy?: string;
+}
+
+type Listener = (transactions: TrackedTransaction[]) => void;
+
+const STORAGE_KEY = 'blockfund:transactions';
+// Settled transactions are kept for the tray until this many newer ones push them out
+const MAX_STORED = 20;
+// How often a resumed transaction the read RPC cannot see is checked for having been mined or dropped
+const RESUME_POLL_INTERVAL = 15000;
+// A transaction still unseen after this long is reported as dropped
+const DROP_TIMEOUT = 60 * 60 * 1000;
+
+/**
+ * Records every transaction the app sends, with what it is for, in localStorage so a reload
+ * does not lose track of it. track() waits for the outcome of a freshly sent transaction;
+ * resume() picks the pending ones back up after a reload. Outcomes other than a confirmation
+ * the sending page is waiting for are reported as notifications.
+ */
+class TransactionManager {
+  private transactions: TrackedTransaction[] = [];
+  private listeners = new Set<Listener>();
+  // Hashes with a wait in progress, so resume() does not watch a transaction twice
+  private watching = new Set<string>();
+  private loaded = false;
+
+  private load() {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      this.transactions = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to read stored transactions:', error);
+      this.transactions = [];
+    }
+  }
+
+  private save() {
+    if (typeof window === 'undefined') return;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    } catch (error) {
+      console.error('Failed to store transactions:', error);
+    }
+  }
+
+  private emit() {
+    const snapshot = this.getTransactions();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  private add(record: TrackedTransaction) {
+    this.load();
+    this.transactions = [record, ...this.transactions.filter((tx) => tx.hash !== record.hash)];
+    // Oldest settled entries go first; a pending one must survive until it resolves
+    for (let i = this.transactions.length - 1; i >= 0 && this.transactions.length > MAX_STORED; i--) {
+      if (this.transactions[i].status !== 'pending') {
+        this.transactions.splice(i, 1);
+      }
+    }
+    this.save();
+    this.emit();
+  }
+
+  private settle(hash: string, update: Partial<TrackedTransaction>, notify: boolean) {
+    const record = this.transactions.find((tx) => tx.hash === hash);
+    if (!record) return;
+    Object.assign(record, update, { settledAt: Date.now() });
+    this.save();
+    this.emit();
+
+    if (record.status !== 'confirmed' || notify) {
+      notificationManager.showNotification(`transaction_${record.status}`, {
+        name: record.intent,
+        hash: record.replacedBy ?? record.hash
+      }, record.campaignAddress ?? record.to);
+    }
+  }
+
+  // Waits for the outcome and records it; rethrows reverts and replacements so callers see them
+  private async watch(record: TrackedTransaction, tx: ethers.TransactionResponse, notifyConfirmed: boolean) {
+    this.watching.add(record.hash);
+    try {
+      const receipt = await tx.wait();
+      this.settle(record.hash, { status: 'confirmed' }, notifyConfirmed);
+      return receipt;
+    } catch (error) {
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        // A sped-up transaction still does what was asked, under a new hash
+        if (error.reason === 'repriced') {
+          this.settle(record.hash, { status: 'confirmed', replacedBy: error.hash }, notifyConfirmed);
+          return error.receipt;
+        }
+        this.settle(record.hash, { status: 'replaced', replacedBy: error.hash }, true);
+      } else if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        this.settle(record.hash, { status: 'failed' }, true);
+      } else {
+        // Lost connection and the like: the transaction may still be mined, so it stays pending
+        console.error(`Lost track of transaction ${record.hash}:`, error);
+      }
+      throw error;
+    } finally {
+      this.watching.delete(record.hash);
+    }
+  }
+
+  /**
+   * Records a transaction the wallet has just sent and waits for it to be mined. Resolves with the
+   * receipt (of the replacement, if the wallet sped it up) and throws if it reverted or was replaced.
+   */
+  async track(tx: ethers.TransactionResponse, intent: string, campaignAddress?: string): Promise<ethers.TransactionReceipt | null> {
+    const startBlock = await tx.provider.getBlockNumber().catch(() => tx.blockNumber ?? 0);
+    const record: TrackedTransaction = {
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      to: tx.to ?? '',
+      nonce: tx.nonce,
+      startBlock,
+      intent,
+      campaignAddress,
+      status: 'pending',
+      submittedAt: Date.now()
+    };
+    console.log(`Tracking transaction ${tx.hash}: ${intent}`);
+    this.add(record);
+    return await this.watch(record, tx, false);
+  }
+
+  /**
+   * Picks the transactions still pending from an earlier visit back up. getProvider returns a
+   * provider for the chain a transaction was sent on.
+   */
+  resume(getProvider: (chainId: number) => ethers.Provider) {
+    this.load();
+    this.transactions
+      .filter((record) => record.status === 'pending' && !this.watching.has(record.hash))
+      .forEach((record) => {
+        this.resumeOne(record, getProvider(record.chainId)).catch((error) =>
+          console.error(`Failed to resume transaction ${record.hash}:`, error)
+        );
+      });
+  }
+
+  private async resumeOne(record: TrackedTransaction, provider: ethers.Provider) {
+    this.watching.add(record.hash);
+    try {
+      while (true) {
+        const tx = await provider.getTransaction(record.hash);
+        if (tx) {
+          this.watching.delete(record.hash);
+          await this.watch(record, tx.replaceableTransaction(record.startBlock), true).catch(() => undefined);
+          return;
+        }
+
+        // The read RPC has not seen it: mined and pruned from view is unlikely, so check whether
+        // another transaction has taken its nonce, or whether it has been missing for too long
+        const nonce = await provider.getTransactionCount(record.from, 'latest');
+        if (nonce > record.nonce || Date.now() - record.submittedAt > DROP_TIMEOUT) {
+          // Mined in between the two reads; the next pass picks it up
+          if (await provider.getTransactionReceipt(record.hash)) continue;
+          this.settle(record.hash, { status: 'dropped' }, true);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RESUME_POLL_INTERVAL));
+      }
+    } finally {
+      this.watching.delete(record.hash);
+    }
+  }
+
+  getTransactions(): TrackedTransaction[] {
+    this.load();
+    return this.transactions.map((tx) => ({ ...tx }));
+  }
+
+  getPendingCount(): number {
+    return this.getTransactions().filter((tx) => tx.status === 'pending').length;
+  }
+
+  // Removes everything that has an outcome, leaving pending transactions in place
+  clearSettled() {
+    this.load();
+    this.transactions = this.transactions.filter((tx) => tx.status === 'pending');
+    this.save();
+    this.emit();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const transactionManager = new TransactionManager();
@@ -1,13 +1,201 @@
 import { ethers } from 'ethers';
-import { FACTORY_ADDRESS, FACTORY_ABI, CROWDFUNDING_ABI } from './contracts';
+import {
+  FACTORY_ADDRESS, FACTORY_ABI, CROWDFUNDING_ABI, ERC20_ABI, MULTICALL3_ABI, RPC_URL, CampaignState, resolveCampaignState,
+  MIN_CAMPAIGN_DURATION, MAX_CAMPAIGN_DURATION
+} from './contracts';
+import { ACTIVE_NETWORK, CAMPAIGN_NETWORKS, getNetwork, toHexChainId } from './networks';
+import { CampaignIndexer, IndexedCampaign, IndexedDBIndexStorage, getLogsInChunks, toCampaignDetails } from './indexer';
+import { TokenInfo, fetchTokenInfo, isNativeToken } from './tokens';
+import { BlockFundError, RevertSource, toBlockFundError } from './errors';
+import { transactionManager } from './transactionManager';
+import { FeeEstimate, FeePreset, feeOverrides, quoteFees } from './fees';
+import {
+  CrowdFundingContract, CrowdFundingFactoryCampaign, CrowdFundingFactoryContract, CrowdFundingMilestone, CrowdFundingTier,
+  connectCrowdFunding, connectCrowdFundingFactory
+} from './contractTypes';
+
+// A factory campaign entry as the pages use it, tagged with the chain it lives on
+export type Campaign = Omit<CrowdFundingFactoryCampaign, 'creationTime'> & {
+  creationTime: number;
+  chainId: number;
+};
 
-interface Campaign {
-  campaignAddress: string;
+interface CampaignDetails {
+  name: string;
+  description: string;
+  goal: string;
+  deadline: number;
+  // Funding opens at this unix timestamp; state is Upcoming until then
+  startTime: number;
   owner: string;
+  paused: boolean;
+  state: number;
+  balance: string;
+  // Raised through tiers and through free-form donations, net of refunds
+  tieredTotal: string;
+  donationTotal: string;
+  minDonation: string;
+  // Currency every amount above is denominated in
+  token: TokenInfo;
+  // Keep raising past the goal until the deadline, up to hardCap ('0.0' for no cap)
+  fundUntilDeadline: boolean;
+  hardCap: string;
+  // Ascending thresholds above the goal, announced as the amount raised crosses them
+  stretchGoals: string[];
+  tiers: Array<{
+    name: string;
+    amount: string;
+    backers: number;
+    id: number;
+    description: string;
+    // 0 means unlimited
+    maxBackers: number;
+    // Unix timestamp; 0 when not given
+    deliveryDate: number;
+  }>;
+}
+
+interface Milestone {
+  title: string;
+  // Whole percent of the raised funds this milestone releases
+  percentage: number;
+  // Contribution weight (in the campaign's currency) of the backers who approved it
+  approvals: string;
+  released: boolean;
+}
+
+// What happens once a campaign reaches its goal: close right away (the default), or keep raising
+// until the deadline, optionally stopping early at hardCap
+interface FundingPolicy {
+  fundUntilDeadline: boolean;
+  hardCap?: string;
+}
+
+// Optional tier metadata accepted by addTier
+interface TierOptions {
+  description?: string;
+  maxBackers?: number;
+  deliveryDate?: number;
+}
+
+// Campaign settings createCampaign takes, for previewing the creation fee
+export interface NewCampaign {
   name: string;
-  creationTime: number;
+  description: string;
+  goal: string;
+  deadline: number;
+  milestones?: Array<{ title: string; percentage: number }>;
+  tokenAddress?: string;
+  startTime?: number;
+  fundingPolicy?: FundingPolicy;
+}
+
+// A write estimateFees can preview before the user signs it
+export type WriteAction =
+  | { type: 'fund'; campaignAddress: string; tierIndex: number; amount: string }
+  | { type: 'donate'; campaignAddress: string; amount: string }
+  | { type: 'withdraw'; campaignAddress: string }
+  | { type: 'addTier'; campaignAddress: string; name: string; amount: string; options?: TierOptions }
+  | { type: 'createCampaign'; campaign: NewCampaign };
+
+interface ContributionRecord {
+  type: 'fund' | 'refund';
+  backer: string;
+  amount: string;
+  // Tier index at the time of funding; null for donations and for refunds, which cover every tier
+  tierIndex: number | null;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
 }
 
+type TimelineEvent = {
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+} & (
+  | { type: 'fund' | 'refund' | 'withdraw'; amount: string }
+  | { type: 'deadline_extended'; newDeadline: number }
+  | { type: 'details_updated'; newName: string; newGoal: string }
+);
+
+interface RawCampaignDetails {
+  name: string;
+  description: string;
+  goal: bigint;
+  deadline: bigint;
+  owner: string;
+  paused: boolean;
+  state: bigint;
+  balance: bigint;
+  tiers: CrowdFundingTier[];
+  tieredTotal: bigint;
+  donationTotal: bigint;
+  minDonation: bigint;
+  token: string;
+  startTime: bigint;
+  fundUntilDeadline: boolean;
+  hardCap: bigint;
+  stretchGoals: bigint[];
+}
+
+// View functions read for every campaign, in the order getCampaignDetails destructures them.
+// Calls from getTiers onwards may be missing on campaigns deployed before they were added.
+const CAMPAIGN_DETAIL_CALLS = [
+  'name', 'description', 'goal', 'deadline', 'owner', 'paused', 'state', 'getContractBalance', 'getTiers',
+  'totalTiered', 'totalDonated', 'minDonation', 'token', 'startTime', 'fundUntilDeadline', 'hardCap', 'getStretchGoals'
+];
+const REQUIRED_DETAIL_CALLS = CAMPAIGN_DETAIL_CALLS.indexOf('getTiers');
+
+const campaignInterface = new ethers.Interface(CROWDFUNDING_ABI);
+const GET_TIERS_CALLDATA = campaignInterface.encodeFunctionData('getTiers');
+
+// What getTiers returns, newest first; campaigns deployed before a Tier field was added return an older shape
+const TIER_SHAPES = [
+  campaignInterface.getFunction('getTiers')!.outputs[0],
+  // Before descriptions, backer caps and delivery dates
+  ethers.ParamType.from('tuple(string name, uint256 amount, uint256 backers, uint256 id)[]'),
+  // Before tier ids
+  ethers.ParamType.from('tuple(string name, uint256 amount, uint256 backers)[]')
+];
+
+// ABI encoding is canonical, so a result is taken as the shape it re-encodes to byte for byte;
+// a shorter tuple can otherwise decode a longer one's data without an error
+function decodeTiers(returnData: string): CrowdFundingTier[] {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  for (const shape of TIER_SHAPES) {
+    let tiers: ethers.Result;
+    try {
+      // ethers defers decoding errors until a value is read, so the re-encode is what surfaces them
+      [tiers] = coder.decode([shape], returnData);
+      if (coder.encode([shape], [tiers]) !== returnData.toLowerCase()) continue;
+    } catch {
+      continue;
+    }
+
+    return tiers.map((tier: ethers.Result, index: number) => ({
+      name: tier[0],
+      amount: tier[1],
+      backers: tier[2],
+      // Tiers had no id before ids were added; their index served as one
+      id: tier.length > 3 ? tier[3] : BigInt(index),
+      description: tier.length > 4 ? tier[4] : '',
+      maxBackers: tier.length > 4 ? tier[5] : BigInt(0),
+      deliveryDate: tier.length > 4 ? tier[6] : BigInt(0)
+    }));
+  }
+  throw new Error('Unrecognized getTiers result');
+}
+
+// Keeps each aggregate3 call well under typical RPC gas limits for eth_call
+const MULTICALL_CAMPAIGNS_PER_CALL = 50;
+
+// Campaigns fetched per getCampaignsPaginated call when iterating the factory
+const CAMPAIGN_PAGE_SIZE = 12;
+
+// An index further behind than this catches up in the background instead of blocking a page load
+const INDEX_MAX_CATCH_UP_BLOCKS = 5000;
+
 /**
  * Web3 Service for Crowdfunding DApp
  * 
@@ -21,7 +209,48 @@ interface Campaign {
  *    - Currency Symbol: ETH
  * 4. Import Hardhat test accounts to MetaMask using private keys
  * 
- * The service will automatically detect localhost vs testnet based on contract address.
+ * The target chain comes from the network registry in lib/networks.ts (NEXT_PUBLIC_CHAIN_ID).
+ *
+ * READ-ONLY MODE:
+ * Visitors without a wallet can still browse campaigns. View calls fall back to a
+ * JsonRpcProvider pointed at NEXT_PUBLIC_RPC_URL; only write methods need a signer.
+ *
+ * MULTI-CHAIN:
+ * Campaigns from every chain in NEXT_PUBLIC_CAMPAIGN_CHAIN_IDS are read over that chain's RPC.
+ * The chain each campaign lives on is remembered, and write methods ask the wallet to switch
+ * to it before sending a transaction.
+ *
+ * CAMPAIGN INDEX:
+ * Batch detail reads are served from the event index in lib/indexer.ts (kept in IndexedDB)
+ * once it has caught up; campaigns it does not know yet are still read from the contracts.
+ *
+ * TOKEN CAMPAIGNS:
+ * A campaign raises either the chain's native coin or one ERC-20 token chosen at creation.
+ * Amounts are parsed and formatted with that currency's decimals, and token contributions are
+ * approved to the campaign before fund/donateToken pulls them in.
+ *
+ * FUNDING POLICY:
+ * A campaign either closes the moment it reaches its goal or, when created with fundUntilDeadline,
+ * keeps raising until the deadline or an optional hard cap. Such campaigns can add stretch goals,
+ * which the contract announces with StretchGoalReached as the amount raised crosses them.
+ *
+ * PULL PAYMENTS:
+ * withdraw, refund and executeEmergencyWithdraw only credit the caller's pending withdrawal on the
+ * campaign; withdrawPayments then sends it, so contract wallets such as Safes can receive funds.
+ *
+ * TRANSACTIONS:
+ * Every write goes through lib/transactionManager.ts, which records the transaction in
+ * localStorage with what it is for, so the Navbar tray can show it and pick it up after a reload.
+ *
+ * FEES:
+ * estimateFees previews the gas, max fee and total cost of funding, donating, withdrawing, adding a
+ * tier or creating a campaign. Those writes take the slow/normal/fast preset the user picked there
+ * (see lib/fees.ts) and send with the matching fee overrides; without one the wallet sets the fees.
+ *
+ * ERRORS:
+ * decodeError maps whatever a write throws (custom error reverts, legacy require strings, rejected
+ * signatures, insufficient funds, nonce conflicts) to a BlockFundError whose message pages show as is.
+ * Factory writes decode their own reverts, since NotOwner on the factory means its owner, not a campaign's.
  */
 
 declare global {
@@ -37,9 +266,17 @@ declare global {
 export class Web3Service {
   private provider: ethers.BrowserProvider | null = null;
   private signer: ethers.JsonRpcSigner | null = null;
-  private eventListeners: Map<string, { contract: ethers.Contract; listener: (...args: unknown[]) => void }> = new Map();
-  private factoryContract: ethers.Contract | null = null;
-  private campaignContracts: Map<string, ethers.Contract> = new Map();
+  private readOnlyProviders: Map<number, ethers.JsonRpcProvider> = new Map();
+  private campaignChains: Map<string, number> = new Map();
+  private multicallUnavailable: Set<number> = new Set();
+  private campaignIndexers: Map<number, CampaignIndexer> = new Map();
+  private indexStorage: IndexedDBIndexStorage | null = null;
+  private blockTimestamps: Map<string, number> = new Map();
+  private eventListeners: Map<string, { contract: ethers.BaseContract; listener: (...args: unknown[]) => void }> = new Map();
+  private factoryContract: CrowdFundingFactoryContract | null = null;
+  private campaignContracts: Map<string, CrowdFundingContract> = new Map();
+  private tokenInfos: Map<string, TokenInfo> = new Map();
+  private campaignTokens: Map<string, TokenInfo> = new Map();
 
   async connectWallet(): Promise<string | null> {
     if (!window.ethereum) {
@@ -107,15 +344,7 @@ export class Web3Service {
 
   async getBalance(account: string): Promise<string | null> {
     try {
-      if (!this.provider) {
-        if (window.ethereum) {
-          this.provider = new ethers.BrowserProvider(window.ethereum);
-        } else {
-          throw new Error("MetaMask is not installed");
-        }
-      }
-
-      const balanceWei = await this.provider.getBalance(account);
+      const balanceWei = await this.getReadProvider().getBalance(account);
       return ethers.formatEther(balanceWei); // returns balance in ETH as string
     } catch (error) {
       console.error("Failed to fetch balance:", error);
@@ -123,9 +352,85 @@ export class Web3Service {
     }
   }
 
+  // ---------------- Read-only access ---------------- //
+
+  hasInjectedWallet(): boolean {
+    return typeof window !== 'undefined' && !!window.ethereum;
+  }
+
+  getReadOnlyProvider(chainId: number = ACTIVE_NETWORK.chainId): ethers.JsonRpcProvider {
+    let provider = this.readOnlyProviders.get(chainId);
+    if (!provider) {
+      const network = getNetwork(chainId);
+      if (!network) {
+        throw new Error(`Unsupported network: ${chainId}`);
+      }
+      const rpcUrl = chainId === ACTIVE_NETWORK.chainId ? RPC_URL : network.rpcUrls[0];
+      // staticNetwork skips the chain-id probe on every request
+      provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+      this.readOnlyProviders.set(chainId, provider);
+    }
+    return provider;
+  }
+
+  // Remember which chain a campaign lives on so reads and writes target it
+  setCampaignChain(campaignAddress: string, chainId: number) {
+    this.campaignChains.set(campaignAddress.toLowerCase(), chainId);
+  }
+
+  getCampaignChain(campaignAddress: string): number | undefined {
+    return this.campaignChains.get(campaignAddress.toLowerCase());
+  }
+
+  // Prefer the wallet's provider when there is one, otherwise use the public RPC
+  private getReadProvider(): ethers.Provider {
+    if (this.provider) {
+      return this.provider;
+    }
+    if (this.hasInjectedWallet()) {
+      return new ethers.BrowserProvider(window.ethereum!);
+    }
+    return this.getReadOnlyProvider();
+  }
+
+  // Reads pinned to a chain always go over that chain's RPC, whatever the wallet is on
+  private getReadRunner(chainId?: number): ethers.ContractRunner {
+    if (chainId !== undefined) {
+      return this.getReadOnlyProvider(chainId);
+    }
+    return this.signer ?? this.getReadProvider();
+  }
+
+  private getFactoryAddress(chainId: number = ACTIVE_NETWORK.chainId): string {
+    const factoryAddress = getNetwork(chainId)?.factoryAddress;
+    if (!factoryAddress) {
+      throw new Error(`No factory configured for chain ${chainId}`);
+    }
+    return factoryAddress;
+  }
 
+  private getReadOnlyFactory(chainId?: number): CrowdFundingFactoryContract {
+    return connectCrowdFundingFactory(this.getFactoryAddress(chainId), this.getReadRunner(chainId));
+  }
 
-  async getFactoryContract() {
+  private getReadOnlyCampaign(campaignAddress: string): CrowdFundingContract {
+    return connectCrowdFunding(campaignAddress, this.getReadRunner(this.getCampaignChain(campaignAddress)));
+  }
+
+  // Make sure the wallet is on the given chain before signing, prompting a switch if needed
+  private async ensureWalletChain(chainId: number) {
+    const currentChainId = await this.getCurrentNetwork();
+    if (currentChainId === chainId) return;
+
+    const switched = await this.switchToNetwork(chainId);
+    if (!switched) {
+      throw new Error(`Please switch your wallet to ${getNetwork(chainId)?.name ?? `chain ${chainId}`} to continue`);
+    }
+    // The old provider is bound to the previous chain
+    await this.reinitializeSigner();
+  }
+
+  private async getSigner(chainId?: number): Promise<ethers.JsonRpcSigner> {
     if (!this.signer) {
       // Try to connect if not already connected
       if (window.ethereum) {
@@ -135,42 +440,283 @@ export class Web3Service {
         throw new Error('Wallet not connected');
       }
     }
-    return new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
+    if (chainId !== undefined) {
+      await this.ensureWalletChain(chainId);
+    }
+    if (!this.signer) {
+      throw new Error('Wallet not connected');
+    }
+    return this.signer;
+  }
+
+  async getFactoryContract(chainId: number = ACTIVE_NETWORK.chainId) {
+    const signer = await this.getSigner(chainId);
+    return connectCrowdFundingFactory(this.getFactoryAddress(chainId), signer);
   }
 
   async getCrowdFundingContract(address: string) {
-    if (!this.signer) {
-      // Try to connect if not already connected
-      if (window.ethereum) {
-        this.provider = new ethers.BrowserProvider(window.ethereum);
-        this.signer = await this.provider.getSigner();
-      } else {
-        throw new Error('Wallet not connected');
+    const signer = await this.getSigner(this.getCampaignChain(address));
+    return connectCrowdFunding(address, signer);
+  }
+
+  // source says which contract was called; factory writes already throw errors decoded as 'factory'
+  decodeError(error: unknown, fallback?: string, source?: RevertSource): BlockFundError {
+    return toBlockFundError(error, fallback, source);
+  }
+
+  // Runs a factory call, decoding its reverts with the factory's messages
+  private async callFactory<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw this.decodeError(error, undefined, 'factory');
+    }
+  }
+
+  // Waits again for the transactions a previous visit left pending, over each one's chain RPC
+  resumePendingTransactions() {
+    transactionManager.resume((chainId) => this.getReadOnlyProvider(chainId));
+  }
+
+  // ---------------- Fees ---------------- //
+
+  // Fee overrides for the preset picked in the fee preview, priced on the wallet's current chain.
+  // Without a preset the wallet picks the fees, as before.
+  private async getFeeOverrides(preset?: FeePreset): Promise<ethers.Overrides> {
+    if (!preset) return {};
+    const signer = await this.getSigner();
+    return feeOverrides(await signer.provider.getFeeData(), preset);
+  }
+
+  // Estimates the gas a write needs and quotes what it costs at each fee preset, before the user signs it.
+  // Throws (decode with decodeError) when the write would revert.
+  async estimateFees(action: WriteAction): Promise<FeeEstimate> {
+    const chainId = action.type === 'createCampaign' ? ACTIVE_NETWORK.chainId : this.getCampaignChain(action.campaignAddress);
+    const signer = await this.getSigner(chainId);
+    const { gasLimit, value, approvalFirst } = await this.estimateWriteGas(action);
+    const [feeData, network] = await Promise.all([signer.provider.getFeeData(), signer.provider.getNetwork()]);
+    console.log(`Estimated ${gasLimit} gas for ${action.type}`);
+
+    return {
+      gasLimit: gasLimit.toString(),
+      value: ethers.formatEther(value),
+      symbol: getNetwork(Number(network.chainId))?.nativeCurrency.symbol ?? 'ETH',
+      approvalFirst,
+      quotes: quoteFees(gasLimit, value, feeData)
+    };
+  }
+
+  private async estimateWriteGas(action: WriteAction): Promise<{ gasLimit: bigint; value: bigint; approvalFirst: boolean }> {
+    const none = BigInt(0);
+    if (action.type === 'createCampaign') {
+      const factory = await this.getFactoryContract();
+      const args = await this.getCreateCampaignArgs(action.campaign);
+      const gasLimit = await this.callFactory(() => factory.createCampaign.estimateGas(...args));
+      return { gasLimit, value: none, approvalFirst: false };
+    }
+
+    const campaign = await this.getCrowdFundingContract(action.campaignAddress);
+    switch (action.type) {
+      case 'withdraw':
+        return { gasLimit: await campaign.withdraw.estimateGas(), value: none, approvalFirst: false };
+      case 'addTier': {
+        const args = await this.getAddTierArgs(action.campaignAddress, action.name, action.amount, action.options);
+        return { gasLimit: await campaign.addTier.estimateGas(...args), value: none, approvalFirst: false };
+      }
+      case 'fund':
+      case 'donate': {
+        const token = await this.getCampaignToken(action.campaignAddress);
+        const amountWei = ethers.parseUnits(action.amount, token.decimals);
+        if (isNativeToken(token.address)) {
+          const gasLimit = action.type === 'fund'
+            ? await campaign.fund.estimateGas(action.tierIndex, { value: amountWei })
+            : await campaign.donate.estimateGas({ value: amountWei });
+          return { gasLimit, value: amountWei, approvalFirst: false };
+        }
+
+        const { erc20, allowance } = await this.getTokenAllowance(action.campaignAddress, token);
+        if (allowance < amountWei) {
+          return { gasLimit: await erc20.approve.estimateGas(action.campaignAddress, amountWei), value: none, approvalFirst: true };
+        }
+        const gasLimit = action.type === 'fund'
+          ? await campaign.fund.estimateGas(action.tierIndex)
+          : await campaign.donateToken.estimateGas(amountWei);
+        return { gasLimit, value: none, approvalFirst: false };
       }
     }
-    return new ethers.Contract(address, CROWDFUNDING_ABI, this.signer);
   }
 
-  async createCampaign(name: string, description: string, goal: string, duration: number) {
+  // ---------------- Campaign currency ---------------- //
+
+  // Symbol and decimals of a token (or the native coin for the zero address), cached per chain
+  async getTokenInfo(tokenAddress: string, chainId: number = ACTIVE_NETWORK.chainId): Promise<TokenInfo> {
+    if (!ethers.isAddress(tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+    const cached = this.tokenInfos.get(key);
+    if (cached) return cached;
+
+    const network = getNetwork(chainId);
+    if (!network) {
+      throw new Error(`Unsupported network: ${chainId}`);
+    }
+    const info = await fetchTokenInfo(this.getReadOnlyProvider(chainId), tokenAddress, network);
+    this.tokenInfos.set(key, info);
+    return info;
+  }
+
+  // The currency a campaign raises in; campaigns deployed before token support raise the native coin
+  async getCampaignToken(campaignAddress: string): Promise<TokenInfo> {
+    const cached = this.campaignTokens.get(campaignAddress.toLowerCase());
+    if (cached) return cached;
+
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    const tokenAddress: string = await campaign.token().catch(() => ethers.ZeroAddress);
+    const info = await this.getTokenInfo(tokenAddress, this.getCampaignChain(campaignAddress) ?? ACTIVE_NETWORK.chainId);
+    this.campaignTokens.set(campaignAddress.toLowerCase(), info);
+    return info;
+  }
+
+  private async parseCampaignAmount(campaignAddress: string, amount: string): Promise<bigint> {
+    const token = await this.getCampaignToken(campaignAddress);
+    return ethers.parseUnits(amount, token.decimals);
+  }
+
+  private async formatCampaignAmount(campaignAddress: string, amount: bigint): Promise<string> {
+    const token = await this.getCampaignToken(campaignAddress);
+    return ethers.formatUnits(amount, token.decimals);
+  }
+
+  // The campaign's token connected to the signer, with how much of it the campaign may already pull
+  private async getTokenAllowance(campaignAddress: string, token: TokenInfo) {
+    const signer = await this.getSigner(this.getCampaignChain(campaignAddress));
+    const erc20 = new ethers.Contract(token.address, ERC20_ABI, signer);
+    const allowance: bigint = await erc20.allowance(await signer.getAddress(), campaignAddress);
+    return { erc20, allowance };
+  }
+
+  // Approve the campaign to pull `amount` of its token, skipping the transaction when the allowance already covers it
+  private async ensureTokenAllowance(campaignAddress: string, token: TokenInfo, amount: bigint, fees: ethers.Overrides = {}) {
+    const { erc20, allowance } = await this.getTokenAllowance(campaignAddress, token);
+    if (allowance >= amount) return;
+
+    console.log(`Approving ${ethers.formatUnits(amount, token.decimals)} ${token.symbol} for ${campaignAddress}`);
+    const tx = await erc20.approve(campaignAddress, amount, fees);
+    await transactionManager.track(tx, `Approve ${token.symbol}`, campaignAddress);
+  }
+
+  // Balance of the campaign's currency held by an account
+  private async getCurrencyBalance(campaignAddress: string, token: TokenInfo, account: string): Promise<bigint> {
+    const runner = this.getReadRunner(this.getCampaignChain(campaignAddress));
+    if (isNativeToken(token.address)) {
+      return await runner.provider!.getBalance(account);
+    }
+    const erc20 = new ethers.Contract(token.address, ERC20_ABI, runner);
+    return await erc20.balanceOf(account);
+  }
+
+  // Without milestones the owner withdraws everything once the campaign succeeds; with them,
+  // percentages must add up to 100 and each release needs backer approval.
+  // tokenAddress picks an ERC-20 to raise instead of the native coin, and startTime (unix seconds)
+  // schedules the launch; 0 opens funding right away. The deadline is an absolute unix timestamp
+  // between one hour and a year after the launch.
+  // A hard cap is only accepted together with fundUntilDeadline and must be at least the goal.
+  async createCampaign(
+    name: string,
+    description: string,
+    goal: string,
+    deadline: number,
+    milestones: Array<{ title: string; percentage: number }> = [],
+    tokenAddress: string = ethers.ZeroAddress,
+    startTime: number = 0,
+    fundingPolicy: FundingPolicy = { fundUntilDeadline: false },
+    feePreset?: FeePreset
+  ) {
     const factory = await this.getFactoryContract();
-    const goalWei = ethers.parseEther(goal);
+    const args = await this.getCreateCampaignArgs({ name, description, goal, deadline, milestones, tokenAddress, startTime, fundingPolicy });
 
-    const tx = await factory.createCampaign(name, description, goalWei, duration);
-    return await tx.wait();
+    return await this.callFactory(async () => {
+      const tx = await factory.createCampaign(...args, await this.getFeeOverrides(feePreset));
+      return await transactionManager.track(tx, `Create campaign "${name}"`);
+    });
   }
 
-  async getAllCampaigns() {
+  // Validates a new campaign and converts it to the factory's createCampaign arguments
+  private async getCreateCampaignArgs({
+    name,
+    description,
+    goal,
+    deadline,
+    milestones = [],
+    tokenAddress = ethers.ZeroAddress,
+    startTime = 0,
+    fundingPolicy = { fundUntilDeadline: false }
+  }: NewCampaign) {
+    const now = Math.floor(Date.now() / 1000);
+    if (startTime !== 0 && startTime <= now) {
+      throw new Error('Launch time must be in the future');
+    }
+    const launch = startTime || now;
+    if (deadline < launch + MIN_CAMPAIGN_DURATION) {
+      throw new Error('Deadline must be at least an hour after launch');
+    }
+    if (deadline > launch + MAX_CAMPAIGN_DURATION) {
+      throw new Error('Deadline must be within a year of launch');
+    }
+
+    if (milestones.length > 0) {
+      if (milestones.some(milestone => !milestone.title.trim())) {
+        throw new Error('Every milestone needs a title');
+      }
+      if (milestones.some(milestone => !Number.isInteger(milestone.percentage) || milestone.percentage <= 0)) {
+        throw new Error('Milestone percentages must be whole numbers greater than 0');
+      }
+      if (milestones.reduce((sum, milestone) => sum + milestone.percentage, 0) !== 100) {
+        throw new Error('Milestone percentages must add up to 100%');
+      }
+    }
+
+    const token = await this.getTokenInfo(tokenAddress);
+    const goalWei = ethers.parseUnits(goal, token.decimals);
+
+    const hardCapWei = fundingPolicy.hardCap ? ethers.parseUnits(fundingPolicy.hardCap, token.decimals) : BigInt(0);
+    if (hardCapWei > BigInt(0)) {
+      if (!fundingPolicy.fundUntilDeadline) {
+        throw new Error('A hard cap only applies to campaigns that keep funding until the deadline');
+      }
+      if (hardCapWei < goalWei) {
+        throw new Error('Hard cap must be at least the goal');
+      }
+    }
+
+    return [
+      name,
+      description,
+      goalWei,
+      startTime,
+      deadline,
+      token.address,
+      fundingPolicy.fundUntilDeadline,
+      hardCapWei,
+      milestones.map(milestone => milestone.title.trim()),
+      milestones.map(milestone => milestone.percentage)
+    ] as const;
+  }
+
+  async getAllCampaigns(): Promise<Campaign[]> {
     try {
       console.log('Factory Address:', FACTORY_ADDRESS);
       console.log('Factory ABI:', FACTORY_ABI);
 
-      // Check if we're on the correct network first
-      const isCorrectNetwork = await this.isOnCorrectNetwork();
+      // Check if we're on the correct network first (read-only visitors have no wallet to switch)
+      const isCorrectNetwork = !this.hasInjectedWallet() || await this.isOnCorrectNetwork();
       if (!isCorrectNetwork) {
         console.log('Wrong network detected, attempting to switch...');
         const switched = await this.switchToCorrectNetwork();
         if (!switched) {
-          throw new Error('Please switch to the correct network (Holesky Testnet) to view campaigns');
+          throw new Error(`Please switch to the correct network (${ACTIVE_NETWORK.name}) to view campaigns`);
         }
       }
 
@@ -181,15 +727,7 @@ export class Web3Service {
       }
 
       // For read-only operations, we can use a provider without signer
-      let contract;
-      if (this.signer) {
-        contract = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        contract = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const contract = this.getReadOnlyFactory();
 
       console.log('Contract instance created:', contract);
       console.log('Calling getAllCampaigns...');
@@ -204,7 +742,7 @@ export class Web3Service {
         return [];
       }
 
-      return campaigns;
+      return this.tagCampaigns(campaigns, ACTIVE_NETWORK.chainId);
     } catch (error: unknown) {
       console.error('Error fetching campaigns:', error);
       if (error instanceof Error) {
@@ -215,32 +753,154 @@ export class Web3Service {
         
         // Provide more helpful error messages
         if (error.message.includes('could not decode result data')) {
-          throw new Error('Unable to decode campaign data. This might be due to network issues or the contract returning empty data. Please ensure you are connected to the correct network (Holesky Testnet).');
+          throw new Error(`Unable to decode campaign data. This might be due to network issues or the contract returning empty data. Please ensure you are connected to the correct network (${ACTIVE_NETWORK.name}).`);
         }
       }
       throw error;
     }
   }
 
-  async getUserCampaigns(userAddress: string) {
-    const factory = await this.getFactoryContract();
-    return await factory.getUserCampaigns(userAddress);
+  // Campaigns from every configured chain, each tagged with the chain it lives on
+  async getCampaignsFromAllChains(): Promise<Campaign[]> {
+    const results = await Promise.allSettled(
+      CAMPAIGN_NETWORKS.map(async (network) => {
+        const factory = this.getReadOnlyFactory(network.chainId);
+        const campaigns = await factory.getAllCampaigns();
+        return this.tagCampaigns(campaigns, network.chainId);
+      })
+    );
+
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    failures.forEach((failure) => console.error('Failed to load campaigns from a chain:', failure.reason));
+    if (failures.length === results.length) {
+      throw failures[0].reason;
+    }
+
+    return results.flatMap((result) => result.status === 'fulfilled' ? result.value : []);
   }
 
-  async getCampaignDetails(campaignAddress: string) {
+  /**
+   * Walks every configured chain's factory page by page, yielding one page of campaigns per
+   * step, so callers can load more on demand instead of pulling the whole array at once.
+   * Factories deployed before pagination existed are read in a single getAllCampaigns page.
+   */
+  async *iterateCampaigns(pageSize: number = CAMPAIGN_PAGE_SIZE): AsyncGenerator<Campaign[]> {
+    let failures = 0;
+    let lastError: unknown;
+
+    for (const network of CAMPAIGN_NETWORKS) {
+      const factory = this.getReadOnlyFactory(network.chainId);
+
+      let total: number;
+      try {
+        total = Number(await factory.campaignCount());
+      } catch (error) {
+        console.warn(`campaignCount unavailable on ${network.name}, falling back to getAllCampaigns:`, error);
+        try {
+          yield this.tagCampaigns(await factory.getAllCampaigns(), network.chainId);
+        } catch (fallbackError) {
+          console.error(`Failed to load campaigns from ${network.name}:`, fallbackError);
+          failures++;
+          lastError = fallbackError;
+        }
+        continue;
+      }
+
+      for (let offset = 0; offset < total; offset += pageSize) {
+        const page = await factory.getCampaignsPaginated(offset, pageSize);
+        yield this.tagCampaigns(page, network.chainId);
+      }
+    }
+
+    if (failures > 0 && failures === CAMPAIGN_NETWORKS.length) {
+      throw lastError;
+    }
+  }
+
+  /**
+   * Campaigns on every configured chain the given account has funded, found through the
+   * FundReceived and DonationReceived logs indexed on the backer topic. Refunded campaigns still appear here;
+   * callers check the current contribution with getBackerContribution.
+   */
+  async getBackedCampaigns(backerAddress: string): Promise<Campaign[]> {
+    const campaigns = await this.getCampaignsFromAllChains();
+    const contributionTopics = ['FundReceived', 'DonationReceived'].map((eventName) =>
+      campaignInterface.getEvent(eventName)!.topicHash
+    );
+    const backerTopic = ethers.zeroPadValue(backerAddress, 32);
+
+    const results = await Promise.allSettled(
+      CAMPAIGN_NETWORKS.map(async (network) => {
+        const addresses = campaigns
+          .filter((campaign) => campaign.chainId === network.chainId)
+          .map((campaign) => campaign.campaignAddress);
+        if (addresses.length === 0) return [];
+
+        const provider = this.getReadOnlyProvider(network.chainId);
+        const logs = await getLogsInChunks(
+          provider,
+          { address: addresses, topics: [contributionTopics, backerTopic] },
+          network.deploymentBlock,
+          await provider.getBlockNumber()
+        );
+        return logs.map((log) => `${network.chainId}-${ethers.getAddress(log.address)}`);
+      })
+    );
+
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('Failed to load backed campaigns from a chain:', result.reason);
+      }
+    });
+
+    const backed = new Set(results.flatMap((result) => result.status === 'fulfilled' ? result.value : []));
+    return campaigns.filter((campaign) =>
+      backed.has(`${campaign.chainId}-${ethers.getAddress(campaign.campaignAddress)}`)
+    );
+  }
+
+  async getUserCampaigns(userAddress: string): Promise<Campaign[]> {
+    const factory = this.getReadOnlyFactory();
+    return this.tagCampaigns(await factory.getUserCampaigns(userAddress), ACTIVE_NETWORK.chainId);
+  }
+
+  async getUserCampaignsFromAllChains(userAddress: string): Promise<Campaign[]> {
+    const results = await Promise.allSettled(
+      CAMPAIGN_NETWORKS.map(async (network) => {
+        const factory = this.getReadOnlyFactory(network.chainId);
+        const campaigns = await factory.getUserCampaigns(userAddress);
+        return this.tagCampaigns(campaigns, network.chainId);
+      })
+    );
+
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('Failed to load user campaigns from a chain:', result.reason);
+      }
+    });
+
+    return results.flatMap((result) => result.status === 'fulfilled' ? result.value : []);
+  }
+
+  private tagCampaigns(campaigns: CrowdFundingFactoryCampaign[], chainId: number): Campaign[] {
+    return campaigns.map((campaign) => {
+      this.setCampaignChain(campaign.campaignAddress, chainId);
+      return {
+        campaignAddress: campaign.campaignAddress,
+        owner: campaign.owner,
+        name: campaign.name,
+        creationTime: Number(campaign.creationTime),
+        chainId
+      };
+    });
+  }
+
+  async getCampaignDetails(campaignAddress: string): Promise<CampaignDetails> {
     try {
       // For read-only operations, we can use a provider without signer
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
-      const [name, description, goal, deadline, owner, paused, state, balance] = await Promise.all([
+      const [name, description, goal, deadline, owner, paused, state, balance, token] = await Promise.all([
         campaign.name(),
         campaign.description(),
         campaign.goal(),
@@ -248,41 +908,254 @@ export class Web3Service {
         campaign.owner(),
         campaign.paused(),
         campaign.state(),
-        campaign.getContractBalance()
+        campaign.getContractBalance(),
+        this.getCampaignToken(campaignAddress)
       ]);
 
       // Try to get tiers, fallback to empty array if function doesn't exist
-      let tiers: Array<{ name: string; amount: string; backers: number }> = [];
+      let tiers: CrowdFundingTier[] = [];
       try {
-        const tiersResult = await campaign.getTiers();
-        tiers = tiersResult.map((tier: { name: string; amount: bigint; backers: bigint }) => ({
-          name: tier.name,
-          amount: ethers.formatEther(tier.amount),
-          backers: Number(tier.backers)
-        }));
+        const runner = this.getReadRunner(this.getCampaignChain(campaignAddress));
+        tiers = decodeTiers(await runner.provider!.call({ to: campaignAddress, data: GET_TIERS_CALLDATA }));
       } catch {
         console.log('getTiers function not available, using empty tiers array');
         tiers = [];
       }
 
-      return {
-        name,
-        description,
-        goal: ethers.formatEther(goal),
-        deadline: Number(deadline),
-        owner,
-        paused,
-        state: Number(state),
-        balance: ethers.formatEther(balance),
-        tiers
-      };
+      // Campaigns deployed before donations existed report zero for both
+      const zero = BigInt(0);
+      const [tieredTotal, donationTotal, minDonation, startTime]: bigint[] = await Promise.all([
+        campaign.totalTiered().catch(() => balance),
+        campaign.totalDonated().catch(() => zero),
+        campaign.minDonation().catch(() => zero),
+        campaign.startTime().catch(() => zero)
+      ]);
+      // Campaigns deployed before funding policies always closed at their goal
+      const [fundUntilDeadline, hardCap, stretchGoals]: [boolean, bigint, bigint[]] = await Promise.all([
+        campaign.fundUntilDeadline().catch(() => false),
+        campaign.hardCap().catch(() => zero),
+        campaign.getStretchGoals().catch(() => [])
+      ]);
+
+      return this.formatCampaignDetails({
+        name, description, goal, deadline, owner, paused, state, balance, tiers,
+        tieredTotal, donationTotal, minDonation, token: token.address, startTime,
+        fundUntilDeadline, hardCap, stretchGoals
+      }, token);
     } catch (error) {
       console.error('Error getting campaign details:', error);
       throw error;
     }
   }
 
-  async fundCampaign(campaignAddress: string, tierIndex: number, amount: string) {
+  private formatCampaignDetails(raw: RawCampaignDetails, token: TokenInfo): CampaignDetails {
+    const format = (value: bigint) => ethers.formatUnits(value, token.decimals);
+    return {
+      name: raw.name,
+      description: raw.description,
+      goal: format(raw.goal),
+      deadline: Number(raw.deadline),
+      startTime: Number(raw.startTime),
+      owner: raw.owner,
+      paused: raw.paused,
+      state: resolveCampaignState(Number(raw.state), Number(raw.startTime)),
+      balance: format(raw.balance),
+      tieredTotal: format(raw.tieredTotal),
+      donationTotal: format(raw.donationTotal),
+      minDonation: format(raw.minDonation),
+      token,
+      fundUntilDeadline: raw.fundUntilDeadline,
+      hardCap: format(raw.hardCap),
+      stretchGoals: raw.stretchGoals.map(format),
+      tiers: raw.tiers.map((tier) => ({
+        name: tier.name,
+        amount: format(tier.amount),
+        backers: Number(tier.backers),
+        id: Number(tier.id),
+        description: tier.description,
+        maxBackers: Number(tier.maxBackers),
+        deliveryDate: Number(tier.deliveryDate)
+      }))
+    };
+  }
+
+  /**
+   * Load details for many campaigns with a handful of Multicall3 round-trips instead of
+   * nine calls per campaign. Campaigns are grouped per chain; chains without a reachable
+   * Multicall3 fall back to getCampaignDetails. Campaigns that fail to load are omitted.
+   */
+  async getCampaignDetailsBatch(campaignAddresses: string[]): Promise<Record<string, CampaignDetails>> {
+    const details: Record<string, CampaignDetails> = {};
+
+    const byChain = new Map<number | undefined, string[]>();
+    for (const campaignAddress of campaignAddresses) {
+      const chainId = this.getCampaignChain(campaignAddress);
+      byChain.set(chainId, [...(byChain.get(chainId) ?? []), campaignAddress]);
+    }
+
+    await Promise.all(Array.from(byChain.entries()).map(async ([chainId, chainAddresses]) => {
+      const indexed = await this.getIndexedCampaigns(chainId ?? ACTIVE_NETWORK.chainId);
+      const addresses = chainAddresses.filter((campaignAddress) => {
+        const campaign = indexed?.[ethers.getAddress(campaignAddress)];
+        if (campaign) {
+          details[campaignAddress] = toCampaignDetails(campaign);
+          this.campaignTokens.set(campaignAddress.toLowerCase(), campaign.token);
+        }
+        return !campaign;
+      });
+      if (addresses.length === 0) return;
+
+      let batched: Record<string, CampaignDetails> | null = null;
+      try {
+        batched = await this.multicallCampaignDetails(addresses, chainId);
+      } catch (error) {
+        console.warn('Multicall failed, loading campaign details one by one:', error);
+        // No Multicall3 at the configured address - stop trying on this chain
+        if (ethers.isError(error, 'BAD_DATA') || ethers.isError(error, 'CALL_EXCEPTION')) {
+          this.multicallUnavailable.add(chainId ?? ACTIVE_NETWORK.chainId);
+        }
+      }
+
+      if (batched) {
+        Object.assign(details, batched);
+        return;
+      }
+
+      const results = await Promise.allSettled(addresses.map((address) => this.getCampaignDetails(address)));
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          details[addresses[index]] = result.value;
+        } else {
+          console.error(`Failed to load details for ${addresses[index]}:`, result.reason);
+        }
+      });
+    }));
+
+    return details;
+  }
+
+  // ---------------- Campaign index ---------------- //
+
+  getCampaignIndexer(chainId: number = ACTIVE_NETWORK.chainId): CampaignIndexer | null {
+    // The index lives in IndexedDB, so there is nothing to read during server rendering
+    if (typeof indexedDB === 'undefined') return null;
+
+    let indexer = this.campaignIndexers.get(chainId);
+    if (!indexer) {
+      const network = getNetwork(chainId);
+      if (!network?.factoryAddress) return null;
+
+      this.indexStorage ??= new IndexedDBIndexStorage();
+      indexer = new CampaignIndexer(network, this.getReadOnlyProvider(chainId), this.indexStorage);
+      this.campaignIndexers.set(chainId, indexer);
+    }
+    return indexer;
+  }
+
+  /**
+   * Campaign state from the local index, brought up to date first. Returns null while the index
+   * is too far behind to catch up quickly; the sync then keeps running in the background.
+   */
+  private async getIndexedCampaigns(chainId: number): Promise<Record<string, IndexedCampaign> | null> {
+    const indexer = this.getCampaignIndexer(chainId);
+    if (!indexer) return null;
+
+    try {
+      const [snapshot, latestBlock] = await Promise.all([
+        indexer.getSnapshot(),
+        this.getReadOnlyProvider(chainId).getBlockNumber()
+      ]);
+
+      if (latestBlock - snapshot.lastProcessedBlock > INDEX_MAX_CATCH_UP_BLOCKS) {
+        indexer.sync().catch((error) => console.error('Background campaign index sync failed:', error));
+        return null;
+      }
+
+      return (await indexer.sync()).campaigns;
+    } catch (error) {
+      console.error('Campaign index unavailable, reading contracts directly:', error);
+      return null;
+    }
+  }
+
+  private async multicallCampaignDetails(
+    campaignAddresses: string[],
+    chainId?: number
+  ): Promise<Record<string, CampaignDetails> | null> {
+    const network = getNetwork(chainId ?? ACTIVE_NETWORK.chainId);
+    if (!network?.multicallAddress || this.multicallUnavailable.has(network.chainId)) {
+      return null;
+    }
+
+    const multicall = new ethers.Contract(network.multicallAddress, MULTICALL3_ABI, this.getReadRunner(chainId));
+    const raws: Record<string, RawCampaignDetails> = {};
+
+    for (let i = 0; i < campaignAddresses.length; i += MULTICALL_CAMPAIGNS_PER_CALL) {
+      const chunk = campaignAddresses.slice(i, i + MULTICALL_CAMPAIGNS_PER_CALL);
+      const calls = chunk.flatMap((target) => CAMPAIGN_DETAIL_CALLS.map((fn) => ({
+        target,
+        // Older campaigns may not have getTiers
+        allowFailure: true,
+        callData: campaignInterface.encodeFunctionData(fn)
+      })));
+
+      const results: Array<{ success: boolean; returnData: string }> = await multicall.aggregate3.staticCall(calls);
+
+      chunk.forEach((campaignAddress, campaignIndex) => {
+        const offset = campaignIndex * CAMPAIGN_DETAIL_CALLS.length;
+        const decoded = CAMPAIGN_DETAIL_CALLS.map((fn, callIndex) => {
+          const result = results[offset + callIndex];
+          if (!result.success) return undefined;
+          if (fn === 'getTiers') {
+            try {
+              return decodeTiers(result.returnData);
+            } catch {
+              return undefined;
+            }
+          }
+          return campaignInterface.decodeFunctionResult(fn, result.returnData)[0];
+        });
+
+        const [
+          name, description, goal, deadline, owner, paused, state, balance, tiers,
+          tieredTotal, donationTotal, minDonation, token, startTime, fundUntilDeadline, hardCap, stretchGoals
+        ] = decoded;
+        if (decoded.slice(0, REQUIRED_DETAIL_CALLS).some((value) => value === undefined)) {
+          console.error(`Failed to load details for ${campaignAddress} via multicall`);
+          return;
+        }
+
+        raws[campaignAddress] = {
+          name, description, goal, deadline, owner, paused, state, balance,
+          tiers: tiers ?? [],
+          tieredTotal: tieredTotal ?? balance,
+          donationTotal: donationTotal ?? BigInt(0),
+          minDonation: minDonation ?? BigInt(0),
+          token: token ?? ethers.ZeroAddress,
+          startTime: startTime ?? BigInt(0),
+          fundUntilDeadline: fundUntilDeadline ?? false,
+          hardCap: hardCap ?? BigInt(0),
+          stretchGoals: stretchGoals ? Array.from(stretchGoals) : []
+        };
+      });
+    }
+
+    // Campaigns mostly share a handful of currencies, so this is a few lookups at most
+    const details: Record<string, CampaignDetails> = {};
+    await Promise.all(Object.entries(raws).map(async ([campaignAddress, raw]) => {
+      try {
+        const token = await this.getTokenInfo(raw.token, network.chainId);
+        this.campaignTokens.set(campaignAddress.toLowerCase(), token);
+        details[campaignAddress] = this.formatCampaignDetails(raw, token);
+      } catch (error) {
+        console.error(`Failed to load the currency of ${campaignAddress}:`, error);
+      }
+    }));
+
+    return details;
+  }
+
+  async fundCampaign(campaignAddress: string, tierIndex: number, amount: string, feePreset?: FeePreset) {
     try {
       console.log('=== FUNDING TRANSACTION ===');
       console.log('Campaign Address:', campaignAddress);
@@ -290,121 +1163,188 @@ export class Web3Service {
       console.log('Amount:', amount);
 
       const campaign = await this.getCrowdFundingContract(campaignAddress);
-      const amountWei = ethers.parseEther(amount);
+      const token = await this.getCampaignToken(campaignAddress);
+      const amountWei = ethers.parseUnits(amount, token.decimals);
 
       console.log('Amount in Wei:', amountWei.toString());
       console.log('Contract instance:', campaign.target);
 
+      // Token campaigns pull the tier amount with transferFrom instead of taking native coin
+      const fees = await this.getFeeOverrides(feePreset);
+      const overrides = isNativeToken(token.address) ? { ...fees, value: amountWei } : fees;
+      if (!isNativeToken(token.address)) {
+        await this.ensureTokenAllowance(campaignAddress, token, amountWei, fees);
+      }
+
       // Try to estimate gas first to catch errors early
       try {
-        const gasEstimate = await campaign.fund.estimateGas(tierIndex, { value: amountWei });
+        const gasEstimate = await campaign.fund.estimateGas(tierIndex, overrides);
         console.log('Gas estimate:', gasEstimate.toString());
       } catch (gasError) {
         console.error('Gas estimation failed:', gasError);
 
         // Try to get more specific error information
         try {
-          await campaign.fund.staticCall(tierIndex, { value: amountWei });
+          await campaign.fund.staticCall(tierIndex, overrides);
         } catch (staticError: unknown) {
           console.error('Static call failed:', staticError);
-
-          // Parse common error messages
-          const errorMessage = staticError instanceof Error ? staticError.message : String(staticError);
-          if (errorMessage.includes('Invalid Tier')) {
-            throw new Error('Invalid tier index - this tier does not exist');
-          } else if (errorMessage.includes('Incorrect Amount')) {
-            throw new Error('Incorrect amount - must match the tier amount exactly');
-          } else if (errorMessage.includes('Campaign is not active')) {
-            throw new Error('Campaign is not active');
-          } else if (errorMessage.includes('Contract is paused')) {
-            throw new Error('Campaign is paused');
-          } else {
-            throw new Error(`Transaction would fail: ${errorMessage}`);
-          }
+          throw this.decodeError(staticError);
         }
-        throw gasError;
+        throw this.decodeError(gasError);
       }
 
-      const tx = await campaign.fund(tierIndex, { value: amountWei });
+      const tx = await campaign.fund(tierIndex, overrides);
       console.log('Transaction sent:', tx.hash);
 
-      const receipt = await tx.wait();
-      console.log('Transaction confirmed:', receipt.hash);
+      const receipt = await transactionManager.track(tx, 'Back a tier', campaignAddress);
+      console.log('Transaction confirmed:', receipt?.hash);
 
       return receipt;
     } catch (error) {
       console.error('Error in fundCampaign:', error);
-      throw error;
+      throw this.decodeError(error);
     }
   }
 
-  async addTier(campaignAddress: string, name: string, amount: string) {
+  async addTier(campaignAddress: string, name: string, amount: string, options: TierOptions = {}, feePreset?: FeePreset) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
-    const amountWei = ethers.parseEther(amount);
+    const args = await this.getAddTierArgs(campaignAddress, name, amount, options);
 
-    const tx = await campaign.addTier(name, amountWei);
-    return await tx.wait();
+    const tx = await campaign.addTier(...args, await this.getFeeOverrides(feePreset));
+    return await transactionManager.track(tx, `Add tier "${name}"`, campaignAddress);
+  }
+
+  private async getAddTierArgs(campaignAddress: string, name: string, amount: string, options: TierOptions = {}) {
+    return [
+      name,
+      options.description ?? '',
+      await this.parseCampaignAmount(campaignAddress, amount),
+      options.maxBackers ?? 0,
+      options.deliveryDate ?? 0
+    ] as const;
   }
 
   async removeTier(campaignAddress: string, tierIndex: number) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
 
     const tx = await campaign.removeTier(tierIndex);
-    return await tx.wait();
+    return await transactionManager.track(tx, 'Remove tier', campaignAddress);
+  }
+
+  async updateTier(campaignAddress: string, tierIndex: number, name: string, amount: string) {
+    const campaign = await this.getCrowdFundingContract(campaignAddress);
+
+    const tx = await campaign.updateTier(tierIndex, name, await this.parseCampaignAmount(campaignAddress, amount));
+    return await transactionManager.track(tx, `Update tier "${name}"`, campaignAddress);
   }
 
-  async withdrawFunds(campaignAddress: string) {
+  async withdrawFunds(campaignAddress: string, feePreset?: FeePreset) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
 
-    const tx = await campaign.withdraw();
-    return await tx.wait();
+    const tx = await campaign.withdraw(await this.getFeeOverrides(feePreset));
+    return await transactionManager.track(tx, 'Withdraw funds', campaignAddress);
   }
 
   async refund(campaignAddress: string) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
 
     const tx = await campaign.refund();
-    return await tx.wait();
+    return await transactionManager.track(tx, 'Claim refund', campaignAddress);
   }
 
-  async getBackerContribution(campaignAddress: string, backerAddress: string) {
+  async withdrawPayments(campaignAddress: string) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
-    const contribution = await campaign.backers(backerAddress);
-    return ethers.formatEther(contribution.totalContribution);
+
+    const tx = await campaign.withdrawPayments();
+    return await transactionManager.track(tx, 'Withdraw payment', campaignAddress);
   }
 
-  async hasFundedTier(campaignAddress: string, backerAddress: string, tierIndex: number) {
-    const campaign = await this.getCrowdFundingContract(campaignAddress);
+  // Amount credited to the account by withdraw/refund/executeEmergencyWithdraw that has not been pulled yet
+  async getPendingWithdrawal(campaignAddress: string, account: string) {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    // Campaigns deployed before pull payments paid out directly, so nothing is ever pending on them
+    const pending: bigint = await campaign.pendingWithdrawals(account).catch(() => BigInt(0));
+    return await this.formatCampaignAmount(campaignAddress, pending);
+  }
+
+  // Milestones plus the index of the one awaiting approval (equal to the length once all are released)
+  async getMilestones(campaignAddress: string): Promise<{ milestones: Milestone[]; currentMilestone: number }> {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    let rawMilestones: CrowdFundingMilestone[];
+    let currentMilestone: bigint;
+    try {
+      [rawMilestones, currentMilestone] = await Promise.all([campaign.getMilestones(), campaign.currentMilestone()]);
+    } catch {
+      // Campaigns deployed before milestones pay out with a plain withdraw
+      return { milestones: [], currentMilestone: 0 };
+    }
+    const token = await this.getCampaignToken(campaignAddress);
+
+    return {
+      milestones: rawMilestones.map(milestone => ({
+        title: milestone.title,
+        percentage: Number(milestone.percentage),
+        approvals: ethers.formatUnits(milestone.approvals, token.decimals),
+        released: milestone.released
+      })),
+      currentMilestone: Number(currentMilestone)
+    };
+  }
+
+  // Weight the backer approved a milestone with, in the campaign's currency; "0.0" when they have not approved it
+  async getMilestoneApproval(campaignAddress: string, backerAddress: string, milestoneIndex: number) {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    const weight: bigint = await campaign.milestoneApprovals(milestoneIndex, backerAddress);
+    return await this.formatCampaignAmount(campaignAddress, weight);
+  }
+
+  async getBackerContribution(campaignAddress: string, backerAddress: string) {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    // backers() has a single output, so ethers returns the uint256 itself
+    const totalContribution: bigint = await campaign.backers(backerAddress);
+    return await this.formatCampaignAmount(campaignAddress, totalContribution);
+  }
+
+  // Tier-level reads are keyed by the tier's current index; the contract maps it to the tier id
+  async hasFundedTier(campaignAddress: string, backerAddress: string, tierIndex: number): Promise<boolean> {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
     return await campaign.hasFundedTier(backerAddress, tierIndex);
   }
 
+  async getTierContribution(campaignAddress: string, backerAddress: string, tierIndex: number) {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    const contribution: bigint = await campaign.getTierContribution(backerAddress, tierIndex);
+    return await this.formatCampaignAmount(campaignAddress, contribution);
+  }
+
   async toggleCampaignPause(campaignAddress: string) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
 
     const tx = await campaign.togglePause();
-    return await tx.wait();
+    return await transactionManager.track(tx, 'Pause or resume campaign', campaignAddress);
   }
 
-  async extendDeadline(campaignAddress: string, days: number) {
+  // Moves the deadline to newDeadline (unix seconds), which must be later than the current one
+  async extendDeadline(campaignAddress: string, newDeadline: number) {
     const campaign = await this.getCrowdFundingContract(campaignAddress);
 
-    const tx = await campaign.extendDeadline(days);
-    return await tx.wait();
+    const [deadline, startTime]: bigint[] = await Promise.all([campaign.deadline(), campaign.startTime()]);
+    if (newDeadline <= Number(deadline)) {
+      throw new Error('New deadline must be after the current one');
+    }
+    if (newDeadline > Number(startTime) + MAX_CAMPAIGN_DURATION) {
+      throw new Error('Deadline must be within a year of launch');
+    }
+
+    const tx = await campaign.extendDeadline(newDeadline);
+    return await transactionManager.track(tx, 'Extend deadline', campaignAddress);
   }
 
   // Additional utility methods for better contract interaction
 
   async getCampaignStatus(campaignAddress: string) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       return await campaign.getCampaignStatus();
     } catch (error) {
@@ -415,21 +1355,17 @@ export class Web3Service {
 
   async getTierByIndex(campaignAddress: string, tierIndex: number) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const tier = await campaign.tiers(tierIndex);
       return {
         name: tier.name,
-        amount: ethers.formatEther(tier.amount),
-        backers: Number(tier.backers)
+        amount: await this.formatCampaignAmount(campaignAddress, tier.amount),
+        backers: Number(tier.backers),
+        id: Number(tier.id),
+        description: tier.description,
+        maxBackers: Number(tier.maxBackers),
+        deliveryDate: Number(tier.deliveryDate)
       };
     } catch (error) {
       console.error('Error getting tier:', error);
@@ -439,15 +1375,7 @@ export class Web3Service {
 
   async getCampaignByIndex(index: number) {
     try {
-      let factory;
-      if (this.signer) {
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const factory = this.getReadOnlyFactory();
 
       return await factory.campaigns(index);
     } catch (error) {
@@ -458,15 +1386,7 @@ export class Web3Service {
 
   async getUserCampaignByIndex(userAddress: string, index: number) {
     try {
-      let factory;
-      if (this.signer) {
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const factory = this.getReadOnlyFactory();
 
       return await factory.userCampaigns(userAddress, index);
     } catch (error) {
@@ -477,15 +1397,7 @@ export class Web3Service {
 
   async getFactoryOwner() {
     try {
-      let factory;
-      if (this.signer) {
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const factory = this.getReadOnlyFactory();
 
       return await factory.owner();
     } catch (error) {
@@ -496,15 +1408,7 @@ export class Web3Service {
 
   async isFactoryPaused() {
     try {
-      let factory;
-      if (this.signer) {
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const factory = this.getReadOnlyFactory();
 
       return await factory.paused();
     } catch (error) {
@@ -515,12 +1419,96 @@ export class Web3Service {
 
   async toggleFactoryPause() {
     const factory = await this.getFactoryContract();
-    const tx = await factory.togglePause();
-    return await tx.wait();
+    return await this.callFactory(async () => {
+      const tx = await factory.togglePause();
+      return await transactionManager.track(tx, 'Pause or resume campaign creation');
+    });
+  }
+
+  // Free-form contribution that does not pick a tier; the contract only enforces minDonation
+  async donateWithValidation(campaignAddress: string, amount: string, feePreset?: FeePreset) {
+    try {
+      console.log('=== DONATION VALIDATION ===');
+      console.log('Campaign Address:', campaignAddress);
+      console.log('Amount:', amount);
+
+      const campaignDetails = await this.getCampaignDetails(campaignAddress);
+
+      if (campaignDetails.paused) {
+        throw new Error('Campaign is paused');
+      }
+
+      if (campaignDetails.state === CampaignState.Upcoming) {
+        throw new Error(`Campaign opens for funding on ${new Date(campaignDetails.startTime * 1000).toLocaleString()}`);
+      }
+
+      if (campaignDetails.state !== 0) { // Not active
+        throw new Error('Campaign is not active');
+      }
+
+      const { token } = campaignDetails;
+      const amountWei = ethers.parseUnits(amount, token.decimals);
+      if (amountWei <= BigInt(0)) {
+        throw new Error('Donation must be greater than 0');
+      }
+
+      if (amountWei < ethers.parseUnits(campaignDetails.minDonation, token.decimals)) {
+        throw new Error(`Minimum donation is ${campaignDetails.minDonation} ${token.symbol}`);
+      }
+
+      this.assertWithinHardCap(campaignDetails, amountWei);
+
+      const userAddress = await this.getAccount();
+      if (userAddress && this.provider) {
+        const balance = await this.getCurrencyBalance(campaignAddress, token, userAddress);
+        if (balance < amountWei) {
+          throw new Error(`Insufficient balance. You have ${parseFloat(ethers.formatUnits(balance, token.decimals)).toFixed(4)} ${token.symbol} but need ${amount} ${token.symbol}`);
+        }
+      }
+
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      const fees = await this.getFeeOverrides(feePreset);
+      let tx;
+      if (isNativeToken(token.address)) {
+        tx = await campaign.donate({ ...fees, value: amountWei });
+      } else {
+        await this.ensureTokenAllowance(campaignAddress, token, amountWei, fees);
+        tx = await campaign.donateToken(amountWei, fees);
+      }
+      console.log('Donation sent:', tx.hash);
+
+      const receipt = await transactionManager.track(tx, 'Donate', campaignAddress);
+      console.log('Donation confirmed:', receipt?.hash);
+
+      return receipt;
+    } catch (error) {
+      console.error('Error donating to campaign:', error);
+      throw error;
+    }
+  }
+
+  // The contract rejects any contribution that would take the amount raised past the hard cap
+  private assertWithinHardCap(campaignDetails: CampaignDetails, amount: bigint) {
+    const { token } = campaignDetails;
+    const hardCap = ethers.parseUnits(campaignDetails.hardCap, token.decimals);
+    if (hardCap === BigInt(0)) return;
+
+    const raised = ethers.parseUnits(campaignDetails.tieredTotal, token.decimals) +
+      ethers.parseUnits(campaignDetails.donationTotal, token.decimals);
+    if (raised + amount > hardCap) {
+      throw new Error(`Only ${ethers.formatUnits(hardCap - raised, token.decimals)} ${token.symbol} left before the hard cap`);
+    }
+  }
+
+  async setMinDonation(campaignAddress: string, amount: string) {
+    const campaign = await this.getCrowdFundingContract(campaignAddress);
+
+    const tx = await campaign.setMinDonation(await this.parseCampaignAmount(campaignAddress, amount));
+    return await transactionManager.track(tx, 'Set minimum donation', campaignAddress);
   }
 
   // Enhanced funding method with better validation
-  async fundCampaignWithValidation(campaignAddress: string, tierIndex: number, amount: string) {
+  async fundCampaignWithValidation(campaignAddress: string, tierIndex: number, amount: string, feePreset?: FeePreset) {
     try {
       console.log('=== FUNDING VALIDATION ===');
       console.log('Campaign Address:', campaignAddress);
@@ -532,13 +1520,17 @@ export class Web3Service {
       console.log('Campaign Details:', campaignDetails);
 
       if (campaignDetails.tiers.length === 0) {
-        throw new Error('No funding tiers available. The campaign owner needs to add tiers first.');
+        throw new Error('No funding tiers available. Contribute a custom amount instead.');
       }
 
       if (campaignDetails.paused) {
         throw new Error('Campaign is paused');
       }
 
+      if (campaignDetails.state === CampaignState.Upcoming) {
+        throw new Error(`Campaign opens for funding on ${new Date(campaignDetails.startTime * 1000).toLocaleString()}`);
+      }
+
       if (campaignDetails.state !== 0) { // Not active
         throw new Error('Campaign is not active');
       }
@@ -548,28 +1540,39 @@ export class Web3Service {
       }
 
       const tier = campaignDetails.tiers[tierIndex];
+      const { token } = campaignDetails;
       console.log('Selected Tier:', tier);
 
       if (parseFloat(amount) !== parseFloat(tier.amount)) {
-        throw new Error(`Amount must be exactly ${tier.amount} ETH for this tier`);
+        throw new Error(`Amount must be exactly ${tier.amount} ${token.symbol} for this tier`);
       }
 
+      this.assertWithinHardCap(campaignDetails, ethers.parseUnits(tier.amount, token.decimals));
+
       // Check if user has enough balance (optional but helpful)
       const userAddress = await this.getAccount();
+
+      // Backers already in a capped tier may keep adding to it
+      if (tier.maxBackers > 0 && tier.backers >= tier.maxBackers) {
+        if (!userAddress || !(await this.hasFundedTier(campaignAddress, userAddress, tierIndex))) {
+          throw new Error('This tier is sold out');
+        }
+      }
+
       if (userAddress && this.provider) {
-        const balance = await this.provider.getBalance(userAddress);
-        const balanceEth = parseFloat(ethers.formatEther(balance));
+        const balance = await this.getCurrencyBalance(campaignAddress, token, userAddress);
+        const balanceEth = parseFloat(ethers.formatUnits(balance, token.decimals));
         const requiredEth = parseFloat(amount);
 
         if (balanceEth < requiredEth) {
-          throw new Error(`Insufficient balance. You have ${balanceEth.toFixed(4)} ETH but need ${requiredEth} ETH`);
+          throw new Error(`Insufficient balance. You have ${balanceEth.toFixed(4)} ${token.symbol} but need ${requiredEth} ${token.symbol}`);
         }
       }
 
       console.log('Validation passed, proceeding with funding...');
 
       // Proceed with funding
-      return await this.fundCampaign(campaignAddress, tierIndex, amount);
+      return await this.fundCampaign(campaignAddress, tierIndex, amount, feePreset);
     } catch (error) {
       console.error('Error funding campaign with validation:', error);
       throw error;
@@ -577,7 +1580,7 @@ export class Web3Service {
   }
 
   // Enhanced tier management methods
-  async addTierWithValidation(campaignAddress: string, name: string, amount: string) {
+  async addTierWithValidation(campaignAddress: string, name: string, amount: string, options: TierOptions = {}, feePreset?: FeePreset) {
     try {
       // Validate inputs
       if (!name.trim()) {
@@ -588,6 +1591,14 @@ export class Web3Service {
         throw new Error('Tier amount must be greater than 0');
       }
 
+      if (options.maxBackers !== undefined && (!Number.isInteger(options.maxBackers) || options.maxBackers < 0)) {
+        throw new Error('Backer limit must be a whole number');
+      }
+
+      if (options.deliveryDate && options.deliveryDate <= Date.now() / 1000) {
+        throw new Error('Estimated delivery must be in the future');
+      }
+
       // Check if user is the owner
       const campaignDetails = await this.getCampaignDetails(campaignAddress);
       const userAddress = await this.getAccount();
@@ -600,11 +1611,12 @@ export class Web3Service {
         throw new Error('Only campaign owner can add tiers');
       }
 
-      if (campaignDetails.state !== 0) {
+      // Owners can keep preparing a scheduled campaign before it launches
+      if (campaignDetails.state !== CampaignState.Active && campaignDetails.state !== CampaignState.Upcoming) {
         throw new Error('Cannot add tiers to inactive campaigns');
       }
 
-      return await this.addTier(campaignAddress, name, amount);
+      return await this.addTier(campaignAddress, name, amount, options, feePreset);
     } catch (error) {
       console.error('Error adding tier with validation:', error);
       throw error;
@@ -625,7 +1637,7 @@ export class Web3Service {
         throw new Error('Only campaign owner can remove tiers');
       }
 
-      if (campaignDetails.state !== 0) {
+      if (campaignDetails.state !== CampaignState.Active && campaignDetails.state !== CampaignState.Upcoming) {
         throw new Error('Cannot remove tiers from inactive campaigns');
       }
 
@@ -645,6 +1657,45 @@ export class Web3Service {
     }
   }
 
+  async updateTierWithValidation(campaignAddress: string, tierIndex: number, name: string, amount: string) {
+    try {
+      const campaignDetails = await this.getCampaignDetails(campaignAddress);
+      const userAddress = await this.getAccount();
+
+      if (!userAddress) {
+        throw new Error('Wallet not connected');
+      }
+
+      if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
+        throw new Error('Only campaign owner can update tiers');
+      }
+
+      if (tierIndex >= campaignDetails.tiers.length) {
+        throw new Error('Invalid tier index');
+      }
+
+      if (!name.trim()) {
+        throw new Error('Tier name is required');
+      }
+
+      if (!amount || parseFloat(amount) <= 0) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      // Backers paid the current price, so only the name can change once a tier has any
+      const tier = campaignDetails.tiers[tierIndex];
+      const { decimals } = campaignDetails.token;
+      if (tier.backers > 0 && ethers.parseUnits(amount, decimals) !== ethers.parseUnits(tier.amount, decimals)) {
+        throw new Error('Cannot change the amount of a tier that has backers');
+      }
+
+      return await this.updateTier(campaignAddress, tierIndex, name.trim(), amount);
+    } catch (error) {
+      console.error('Error updating tier with validation:', error);
+      throw error;
+    }
+  }
+
   // Campaign management helpers
   async canWithdraw(campaignAddress: string): Promise<boolean> {
     try {
@@ -655,6 +1706,8 @@ export class Web3Service {
       if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) return false;
       if (campaignDetails.state !== 1) return false; // Not successful
       if (parseFloat(campaignDetails.balance) <= 0) return false;
+      // Milestone campaigns pay out through releaseMilestone instead
+      if ((await this.getMilestones(campaignAddress)).milestones.length > 0) return false;
 
       return true;
     } catch (error) {
@@ -665,11 +1718,16 @@ export class Web3Service {
 
   async canRefund(campaignAddress: string): Promise<boolean> {
     try {
-      const campaignDetails = await this.getCampaignDetails(campaignAddress);
       const userAddress = await this.getAccount();
-
       if (!userAddress) return false;
-      if (campaignDetails.state !== 2) return false; // Not failed
+
+      // getCampaignStatus already accounts for a passed deadline that refund() would settle;
+      // a pending emergency withdrawal opens refunds in any state
+      const [status, emergencyWithdrawAvailableAt] = await Promise.all([
+        this.getCampaignStatus(campaignAddress).then(Number),
+        this.getEmergencyWithdrawAvailableAt(campaignAddress)
+      ]);
+      if (status !== CampaignState.Failed && emergencyWithdrawAvailableAt === 0) return false;
 
       const contribution = await this.getBackerContribution(campaignAddress, userAddress);
       return parseFloat(contribution) > 0;
@@ -704,15 +1762,7 @@ export class Web3Service {
 
   async checkContractExists(address: string): Promise<boolean> {
     try {
-      let provider;
-      if (this.provider) {
-        provider = this.provider;
-      } else if (window.ethereum) {
-        provider = new ethers.BrowserProvider(window.ethereum);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
-
+      const provider = this.getReadProvider();
       const code = await provider.getCode(address);
       console.log('Contract code at', address, ':', code);
       return code !== '0x';
@@ -737,65 +1787,34 @@ export class Web3Service {
   }
 
   async switchToCorrectNetwork(): Promise<boolean> {
-    // Detect which network to use based on the factory address
-    const factoryAddress = FACTORY_ADDRESS.toLowerCase();
-
-    console.log('Factory Address:', factoryAddress);
-
-    // Hardhat localhost default address
-    if (factoryAddress === '0x5fbdb2315678afecb367f032d93f642f64180aa3') {
-      console.log('Detected localhost deployment, switching to localhost network...');
-      return await this.switchToLocalhost();
-    }
-    // Holesky deployment (current address)
-    else if (factoryAddress === '0xe68969f12595a6155d85e33f6ea900eca206b2d8') {
-      console.log('Detected Holesky deployment, switching to Holesky network...');
-      return await this.switchToHolesky();
-    }
-    // Legacy Holesky deployment
-    else if (factoryAddress === '0x0e88327fb445393a674194740535175c1cbf1c26') {
-      console.log('Detected legacy Holesky deployment, switching to Holesky network...');
-      return await this.switchToHolesky();
-    }
-    // Default to Holesky for production
-    else {
-      console.log('Unknown deployment, defaulting to Holesky network...');
-      return await this.switchToHolesky();
-    }
+    console.log(`Switching to ${ACTIVE_NETWORK.name} (chain ${ACTIVE_NETWORK.chainId})...`);
+    return await this.switchToNetwork(ACTIVE_NETWORK.chainId);
   }
 
-
   async isOnCorrectNetwork(): Promise<boolean> {
     try {
       const currentNetwork = await this.getCurrentNetwork();
-      const factoryAddress = FACTORY_ADDRESS.toLowerCase();
-
-      // Check if we're on the right network for the deployment
-      if (factoryAddress === '0x5fbdb2315678afecb367f032d93f642f64180aa3') {
-        return currentNetwork === 31337; // Localhost
-      } else if (factoryAddress === '0xe68969f12595a6155d85e33f6ea900eca206b2d8' || 
-                 factoryAddress === '0x0e88327fb445393a674194740535175c1cbf1c26') {
-        return currentNetwork === 17000; // Holesky
-      }
-
-      // Default to Holesky for production
-      return currentNetwork === 17000;
+      return currentNetwork === ACTIVE_NETWORK.chainId;
     } catch (error) {
       console.error('Error checking network:', error);
       return false;
     }
   }
 
-  async switchToLocalhost(): Promise<boolean> {
+  async switchToNetwork(chainId: number): Promise<boolean> {
     if (!window.ethereum) {
       throw new Error('MetaMask is not installed');
     }
 
+    const network = getNetwork(chainId);
+    if (!network) {
+      throw new Error(`Unsupported network: ${chainId}`);
+    }
+
     try {
-      // Try to switch to localhost network (chain ID 31337)
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0x7a69' }], // 31337 in hex
+        params: [{ chainId: toHexChainId(network.chainId) }],
       });
       return true;
     } catch (switchError: unknown) {
@@ -807,78 +1826,60 @@ export class Web3Service {
             method: 'wallet_addEthereumChain',
             params: [
               {
-                chainId: '0x7a69', // 31337 in hex
-                chainName: 'Localhost 8545',
-                nativeCurrency: {
-                  name: 'Ethereum',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                rpcUrls: ['http://127.0.0.1:8545'],
-                blockExplorerUrls: null,
+                chainId: toHexChainId(network.chainId),
+                chainName: network.name,
+                nativeCurrency: network.nativeCurrency,
+                rpcUrls: network.rpcUrls,
+                blockExplorerUrls: network.blockExplorerUrls,
               },
             ],
           });
           return true;
         } catch (addError) {
-          console.error('Failed to add localhost network:', addError);
+          console.error(`Failed to add ${network.name}:`, addError);
           return false;
         }
       } else {
-        console.error('Failed to switch to localhost network:', switchError);
+        console.error(`Failed to switch to ${network.name}:`, switchError);
         return false;
       }
     }
   }
 
-  // Keep the old method for backward compatibility but rename it
+  // Kept for backward compatibility, prefer switchToNetwork
+  async switchToLocalhost(): Promise<boolean> {
+    return await this.switchToNetwork(31337);
+  }
+
   async switchToHolesky(): Promise<boolean> {
-    if (!window.ethereum) {
-      throw new Error('MetaMask is not installed');
-    }
+    return await this.switchToNetwork(17000);
+  }
 
+  // New campaign management methods
+  async deleteCampaign(campaignAddress: string) {
     try {
-      // Try to switch to Holesky testnet (chain ID 17000)
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0x4268' }], // 17000 in hex
-      });
-      return true;
-    } catch (switchError: unknown) {
-      // If the chain hasn't been added to MetaMask, add it
-      const error = switchError as { code?: number };
-      if (error.code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: '0x4268', // 17000 in hex
-                chainName: 'Holesky Testnet',
-                nativeCurrency: {
-                  name: 'Ethereum',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                rpcUrls: ['https://ethereum-holesky.publicnode.com'],
-                blockExplorerUrls: ['https://holesky.etherscan.io/'],
-              },
-            ],
-          });
-          return true;
-        } catch (addError) {
-          console.error('Failed to add Holesky network:', addError);
-          return false;
-        }
-      } else {
-        console.error('Failed to switch to Holesky network:', switchError);
-        return false;
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      const userAddress = await this.getAccount();
+
+      if (!userAddress) {
+        throw new Error('Wallet not connected');
       }
+
+      // Check if user is the owner
+      const campaignDetails = await this.getCampaignDetails(campaignAddress);
+      if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
+        throw new Error('Only campaign owner can delete the campaign');
+      }
+
+      const tx = await campaign.deleteCampaign();
+      return await transactionManager.track(tx, 'Delete campaign', campaignAddress);
+    } catch (error) {
+      console.error('Error deleting campaign:', error);
+      throw error;
     }
   }
 
-  // New campaign management methods
-  async deleteCampaign(campaignAddress: string) {
+  async updateCampaignDetails(campaignAddress: string, newName: string, newDescription: string, newGoal: string) {
     try {
       const campaign = await this.getCrowdFundingContract(campaignAddress);
       const userAddress = await this.getAccount();
@@ -890,79 +1891,179 @@ export class Web3Service {
       // Check if user is the owner
       const campaignDetails = await this.getCampaignDetails(campaignAddress);
       if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
-        throw new Error('Only campaign owner can delete the campaign');
+        throw new Error('Only campaign owner can update campaign details');
+      }
+
+      if (campaignDetails.state !== CampaignState.Active && campaignDetails.state !== CampaignState.Upcoming) {
+        throw new Error('Cannot update details of inactive campaigns');
+      }
+
+      const goalWei = ethers.parseUnits(newGoal, campaignDetails.token.decimals);
+      const tx = await campaign.updateCampaignDetails(newName, newDescription, goalWei);
+      return await transactionManager.track(tx, 'Update campaign details', campaignAddress);
+    } catch (error) {
+      console.error('Error updating campaign details:', error);
+      throw error;
+    }
+  }
+
+  // Stretch goals go on campaigns that fund until the deadline, each above the goal, the previous
+  // stretch goal and the amount raised so far, and within the hard cap
+  async addStretchGoal(campaignAddress: string, amount: string) {
+    try {
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      await this.assertCampaignOwner(campaignAddress, 'Only campaign owner can add stretch goals');
+
+      const campaignDetails = await this.getCampaignDetails(campaignAddress);
+      if (campaignDetails.state !== CampaignState.Active && campaignDetails.state !== CampaignState.Upcoming) {
+        throw new Error('Cannot add stretch goals to inactive campaigns');
+      }
+      if (!campaignDetails.fundUntilDeadline) {
+        throw new Error('This campaign closes when it reaches its goal, so it has no stretch goals');
+      }
+
+      const { token } = campaignDetails;
+      const amountWei = ethers.parseUnits(amount, token.decimals);
+      const floor = campaignDetails.stretchGoals[campaignDetails.stretchGoals.length - 1] ?? campaignDetails.goal;
+      if (amountWei <= ethers.parseUnits(floor, token.decimals)) {
+        throw new Error(`Stretch goal must be above ${floor} ${token.symbol}`);
+      }
+      const raised = ethers.parseUnits(campaignDetails.tieredTotal, token.decimals) +
+        ethers.parseUnits(campaignDetails.donationTotal, token.decimals);
+      if (amountWei <= raised) {
+        throw new Error('Stretch goal must be above the amount raised so far');
+      }
+      const hardCap = ethers.parseUnits(campaignDetails.hardCap, token.decimals);
+      if (hardCap > BigInt(0) && amountWei > hardCap) {
+        throw new Error(`Stretch goal cannot exceed the hard cap of ${campaignDetails.hardCap} ${token.symbol}`);
+      }
+
+      const tx = await campaign.addStretchGoal(amountWei);
+      return await transactionManager.track(tx, 'Add stretch goal', campaignAddress);
+    } catch (error) {
+      console.error('Error adding stretch goal:', error);
+      throw error;
+    }
+  }
+
+  // Emergency withdrawals are two-step: a request starts a public delay during which backers
+  // can refund, then the owner executes it (or cancels it) once the delay has passed
+  async requestEmergencyWithdraw(campaignAddress: string) {
+    try {
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      await this.assertCampaignOwner(campaignAddress, 'Only campaign owner can request an emergency withdrawal');
+
+      const tx = await campaign.requestEmergencyWithdraw();
+      return await transactionManager.track(tx, 'Request emergency withdrawal', campaignAddress);
+    } catch (error) {
+      console.error('Error requesting emergency withdrawal:', error);
+      throw error;
+    }
+  }
+
+  async cancelEmergencyWithdraw(campaignAddress: string) {
+    try {
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      await this.assertCampaignOwner(campaignAddress, 'Only campaign owner can cancel an emergency withdrawal');
+
+      const tx = await campaign.cancelEmergencyWithdraw();
+      return await transactionManager.track(tx, 'Cancel emergency withdrawal', campaignAddress);
+    } catch (error) {
+      console.error('Error cancelling emergency withdrawal:', error);
+      throw error;
+    }
+  }
+
+  async executeEmergencyWithdraw(campaignAddress: string) {
+    try {
+      const campaign = await this.getCrowdFundingContract(campaignAddress);
+      await this.assertCampaignOwner(campaignAddress, 'Only campaign owner can perform emergency withdrawal');
+
+      const availableAt = await this.getEmergencyWithdrawAvailableAt(campaignAddress);
+      if (availableAt === 0) {
+        throw new Error('No emergency withdrawal has been requested');
+      }
+      if (Date.now() / 1000 < availableAt) {
+        throw new Error(`Emergency withdrawal is timelocked until ${new Date(availableAt * 1000).toLocaleString()}`);
       }
 
-      const tx = await campaign.deleteCampaign();
-      return await tx.wait();
+      const tx = await campaign.executeEmergencyWithdraw();
+      return await transactionManager.track(tx, 'Execute emergency withdrawal', campaignAddress);
     } catch (error) {
-      console.error('Error deleting campaign:', error);
+      console.error('Error performing emergency withdrawal:', error);
       throw error;
     }
   }
 
-  async updateCampaignDetails(campaignAddress: string, newName: string, newDescription: string, newGoal: string) {
+  async approveMilestone(campaignAddress: string) {
     try {
       const campaign = await this.getCrowdFundingContract(campaignAddress);
       const userAddress = await this.getAccount();
-
       if (!userAddress) {
         throw new Error('Wallet not connected');
       }
 
-      // Check if user is the owner
-      const campaignDetails = await this.getCampaignDetails(campaignAddress);
-      if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
-        throw new Error('Only campaign owner can update campaign details');
+      const [status, contribution, { milestones, currentMilestone }] = await Promise.all([
+        this.getCampaignStatus(campaignAddress).then(Number),
+        this.getBackerContribution(campaignAddress, userAddress),
+        this.getMilestones(campaignAddress)
+      ]);
+      if (status !== CampaignState.Successful) {
+        throw new Error('Milestones can only be approved once the campaign is successful');
       }
-
-      if (campaignDetails.state !== 0) {
-        throw new Error('Cannot update details of inactive campaigns');
+      if (currentMilestone >= milestones.length) {
+        throw new Error('No milestone is awaiting approval');
+      }
+      if (parseFloat(contribution) <= 0) {
+        throw new Error('Only backers can approve milestones');
+      }
+      if (parseFloat(await this.getMilestoneApproval(campaignAddress, userAddress, currentMilestone)) > 0) {
+        throw new Error('You have already approved this milestone');
       }
 
-      const goalWei = ethers.parseEther(newGoal);
-      const tx = await campaign.updateCampaignDetails(newName, newDescription, goalWei);
-      return await tx.wait();
+      const tx = await campaign.approveMilestone();
+      return await transactionManager.track(tx, 'Approve milestone', campaignAddress);
     } catch (error) {
-      console.error('Error updating campaign details:', error);
+      console.error('Error approving milestone:', error);
       throw error;
     }
   }
 
-  async emergencyWithdraw(campaignAddress: string) {
+  async releaseMilestone(campaignAddress: string) {
     try {
       const campaign = await this.getCrowdFundingContract(campaignAddress);
-      const userAddress = await this.getAccount();
-
-      if (!userAddress) {
-        throw new Error('Wallet not connected');
-      }
-
-      // Check if user is the owner
-      const campaignDetails = await this.getCampaignDetails(campaignAddress);
-      if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
-        throw new Error('Only campaign owner can perform emergency withdrawal');
-      }
+      await this.assertCampaignOwner(campaignAddress, 'Only campaign owner can release milestones');
 
-      const tx = await campaign.emergencyWithdraw();
-      return await tx.wait();
+      const tx = await campaign.releaseMilestone();
+      return await transactionManager.track(tx, 'Release milestone', campaignAddress);
     } catch (error) {
-      console.error('Error performing emergency withdrawal:', error);
+      console.error('Error releasing milestone:', error);
       throw error;
     }
   }
 
+  // Unix time the pending emergency withdrawal can be executed, or 0 when none is pending
+  async getEmergencyWithdrawAvailableAt(campaignAddress: string): Promise<number> {
+    const campaign = this.getReadOnlyCampaign(campaignAddress);
+    // Campaigns deployed before the timelock have no request to report
+    return Number(await campaign.emergencyWithdrawAvailableAt().catch(() => BigInt(0)));
+  }
+
+  private async assertCampaignOwner(campaignAddress: string, message: string) {
+    const userAddress = await this.getAccount();
+    if (!userAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const campaignDetails = await this.getCampaignDetails(campaignAddress);
+    if (campaignDetails.owner.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error(message);
+    }
+  }
+
   async isCampaignDeleted(campaignAddress: string): Promise<boolean> {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       return await campaign.deleted();
     } catch (error) {
@@ -973,7 +2074,7 @@ export class Web3Service {
 
   async deleteCampaignFromFactory(campaignAddress: string) {
     try {
-      const factory = await this.getFactoryContract();
+      const factory = await this.getFactoryContract(this.getCampaignChain(campaignAddress));
       const userAddress = await this.getAccount();
 
       if (!userAddress) {
@@ -986,8 +2087,10 @@ export class Web3Service {
         throw new Error('Only campaign owner can delete the campaign from factory');
       }
 
-      const tx = await factory.deleteCampaignFromFactory(campaignAddress);
-      return await tx.wait();
+      return await this.callFactory(async () => {
+        const tx = await factory.deleteCampaignFromFactory(campaignAddress);
+        return await transactionManager.track(tx, 'Delete campaign', campaignAddress);
+      });
     } catch (error) {
       console.error('Error deleting campaign from factory:', error);
       throw error;
@@ -1000,46 +2103,34 @@ export class Web3Service {
     owner: string;
     name: string;
     creationTime: number;
+    chainId: number;
   }) => void) {
-    try {
-      // Check if we're on the correct network first
-      const isCorrectNetwork = await this.isOnCorrectNetwork();
-      if (!isCorrectNetwork) {
-        console.warn('Not on correct network, event listening may not work properly');
-      }
-
-      let factory;
-      if (this.signer) {
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        factory = new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
+    // One listener per configured chain, each over that chain's read-only provider
+    for (const network of CAMPAIGN_NETWORKS) {
+      try {
+        const factory = this.getReadOnlyFactory(network.chainId);
+
+        const listener = (campaignAddress: string, owner: string, name: string, timestamp: bigint) => {
+          const campaignData = {
+            campaignAddress,
+            owner,
+            name,
+            creationTime: Number(timestamp),
+            chainId: network.chainId
+          };
+          console.log('CampaignCreated event received:', campaignData);
+
+          this.setCampaignChain(campaignAddress, network.chainId);
+          callback(campaignData);
+        };
+
+        factory.on("CampaignCreated", listener);
+        this.eventListeners.set(`CampaignCreated_${network.chainId}`, { contract: factory, listener: listener as (...args: unknown[]) => void });
+
+        console.log(`Started listening for CampaignCreated events on ${network.name}`);
+      } catch (error) {
+        console.error(`Error setting up CampaignCreated listener on ${network.name}:`, error);
       }
-
-      const listener = (campaignAddress: string, owner: string, name: string, timestamp: bigint) => {
-        console.log('CampaignCreated event received:', {
-          campaignAddress,
-          owner,
-          name,
-          creationTime: Number(timestamp)
-        });
-        
-        callback({
-          campaignAddress,
-          owner,
-          name,
-          creationTime: Number(timestamp)
-        });
-      };
-
-      factory.on("CampaignCreated", listener);
-      this.eventListeners.set('CampaignCreated', { contract: factory, listener: listener as (...args: unknown[]) => void });
-      
-      console.log('Started listening for CampaignCreated events');
-    } catch (error) {
-      console.error('Error setting up CampaignCreated listener:', error);
     }
   }
 
@@ -1048,24 +2139,19 @@ export class Web3Service {
     amount: string;
     tierIndex: number;
     campaignAddress: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (backer: string, amount: bigint, tierIndex: bigint) => {
         callback({
           backer,
-          amount: ethers.formatEther(amount),
+          amount: ethers.formatUnits(amount, token.decimals),
           tierIndex: Number(tierIndex),
-          campaignAddress
+          campaignAddress,
+          symbol: token.symbol
         });
       };
 
@@ -1079,20 +2165,38 @@ export class Web3Service {
     }
   }
 
+  async listenForDonationReceived(campaignAddress: string, callback: (donationData: {
+    backer: string;
+    amount: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (backer: string, amount: bigint) => {
+        callback({
+          backer,
+          amount: ethers.formatUnits(amount, token.decimals),
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("DonationReceived", listener);
+      this.eventListeners.set(`DonationReceived_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+
+      console.log(`Started listening for DonationReceived events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up DonationReceived listener:', error);
+    }
+  }
+
   async listenForCampaignStateChange(campaignAddress: string, callback: (stateData: {
     newState: number;
     campaignAddress: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const listener = (newState: bigint) => {
         callback({
@@ -1117,15 +2221,7 @@ export class Web3Service {
     campaignAddress: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const listener = (deletedBy: string) => {
         callback({
@@ -1148,24 +2244,19 @@ export class Web3Service {
     newDescription: string;
     newGoal: string;
     campaignAddress: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (newName: string, newDescription: string, newGoal: bigint) => {
         callback({
           newName,
           newDescription,
-          newGoal: ethers.formatEther(newGoal),
-          campaignAddress
+          newGoal: ethers.formatUnits(newGoal, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
         });
       };
 
@@ -1183,15 +2274,7 @@ export class Web3Service {
     campaignAddress: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const listener = (newDeadline: bigint) => {
         callback({
@@ -1213,23 +2296,18 @@ export class Web3Service {
     name: string;
     amount: string;
     campaignAddress: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (name: string, amount: bigint) => {
         callback({
           name,
-          amount: ethers.formatEther(amount),
-          campaignAddress
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
         });
       };
 
@@ -1247,15 +2325,7 @@ export class Web3Service {
     campaignAddress: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const listener = (tierIndex: bigint) => {
         callback({
@@ -1273,27 +2343,166 @@ export class Web3Service {
     }
   }
 
+  async listenForTierUpdated(campaignAddress: string, callback: (tierData: {
+    tierIndex: number;
+    name: string;
+    amount: string;
+    campaignAddress: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (tierIndex: bigint, name: string, amount: bigint) => {
+        callback({
+          tierIndex: Number(tierIndex),
+          name,
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("TierUpdated", listener);
+      this.eventListeners.set(`TierUpdated_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+      
+      console.log(`Started listening for TierUpdated events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up TierUpdated listener:', error);
+    }
+  }
+
+  async listenForMilestoneApproved(campaignAddress: string, callback: (milestoneData: {
+    index: number;
+    backer: string;
+    weight: string;
+    campaignAddress: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (index: bigint, backer: string, weight: bigint) => {
+        callback({
+          index: Number(index),
+          backer,
+          weight: ethers.formatUnits(weight, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("MilestoneApproved", listener);
+      this.eventListeners.set(`MilestoneApproved_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+      
+      console.log(`Started listening for MilestoneApproved events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up MilestoneApproved listener:', error);
+    }
+  }
+
+  async listenForMilestoneReleased(campaignAddress: string, callback: (milestoneData: {
+    index: number;
+    amount: string;
+    campaignAddress: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (index: bigint, amount: bigint) => {
+        callback({
+          index: Number(index),
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("MilestoneReleased", listener);
+      this.eventListeners.set(`MilestoneReleased_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+      
+      console.log(`Started listening for MilestoneReleased events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up MilestoneReleased listener:', error);
+    }
+  }
+
+  async listenForStretchGoalAdded(campaignAddress: string, callback: (goalData: {
+    index: number;
+    amount: string;
+    campaignAddress: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (index: bigint, amount: bigint) => {
+        callback({
+          index: Number(index),
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("StretchGoalAdded", listener);
+      this.eventListeners.set(`StretchGoalAdded_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+
+      console.log(`Started listening for StretchGoalAdded events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up StretchGoalAdded listener:', error);
+    }
+  }
+
+  async listenForStretchGoalReached(campaignAddress: string, callback: (goalData: {
+    index: number;
+    amount: string;
+    campaignAddress: string;
+    symbol: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
+
+      const listener = (index: bigint, amount: bigint) => {
+        callback({
+          index: Number(index),
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
+        });
+      };
+
+      campaign.on("StretchGoalReached", listener);
+      this.eventListeners.set(`StretchGoalReached_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+
+      console.log(`Started listening for StretchGoalReached events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up StretchGoalReached listener:', error);
+    }
+  }
+
   async listenForEmergencyWithdraw(campaignAddress: string, callback: (withdrawData: {
     owner: string;
     amount: string;
     campaignAddress: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (owner: string, amount: bigint) => {
         callback({
           owner,
-          amount: ethers.formatEther(amount),
-          campaignAddress
+          amount: ethers.formatUnits(amount, token.decimals),
+          campaignAddress,
+          symbol: token.symbol
         });
       };
 
@@ -1306,25 +2515,62 @@ export class Web3Service {
     }
   }
 
+  async listenForEmergencyWithdrawRequested(campaignAddress: string, callback: (requestData: {
+    owner: string;
+    availableAt: number;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+
+      const listener = (owner: string, availableAt: bigint) => {
+        callback({
+          owner,
+          availableAt: Number(availableAt)
+        });
+      };
+
+      campaign.on("EmergencyWithdrawRequested", listener);
+      this.eventListeners.set(`EmergencyWithdrawRequested_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+
+      console.log(`Started listening for EmergencyWithdrawRequested events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up EmergencyWithdrawRequested listener:', error);
+    }
+  }
+
+  async listenForEmergencyWithdrawCancelled(campaignAddress: string, callback: (cancelData: {
+    owner: string;
+  }) => void) {
+    try {
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+
+      const listener = (owner: string) => {
+        callback({ owner });
+      };
+
+      campaign.on("EmergencyWithdrawCancelled", listener);
+      this.eventListeners.set(`EmergencyWithdrawCancelled_${campaignAddress}`, { contract: campaign, listener: listener as (...args: unknown[]) => void });
+
+      console.log(`Started listening for EmergencyWithdrawCancelled events on campaign ${campaignAddress}`);
+    } catch (error) {
+      console.error('Error setting up EmergencyWithdrawCancelled listener:', error);
+    }
+  }
+
   async listenForFundsWithdrawn(campaignAddress: string, callback: (withdrawData: {
     owner: string;
     amount: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (owner: string, amount: bigint) => {
         callback({
           owner,
-          amount: ethers.formatEther(amount)
+          amount: ethers.formatUnits(amount, token.decimals),
+          symbol: token.symbol
         });
       };
 
@@ -1340,22 +2586,17 @@ export class Web3Service {
   async listenForRefundIssued(campaignAddress: string, callback: (refundData: {
     backer: string;
     amount: string;
+    symbol: string;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
+      const token = await this.getCampaignToken(campaignAddress);
 
       const listener = (backer: string, amount: bigint) => {
         callback({
           backer,
-          amount: ethers.formatEther(amount)
+          amount: ethers.formatUnits(amount, token.decimals),
+          symbol: token.symbol
         });
       };
 
@@ -1372,15 +2613,7 @@ export class Web3Service {
     paused: boolean;
   }) => void) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const listener = (paused: boolean) => {
         callback({ paused });
@@ -1397,17 +2630,25 @@ export class Web3Service {
 
   // Comprehensive event listener setup for a campaign
   async listenForCampaignEvents(campaignAddress: string, callbacks: {
-    onFundReceived?: (data: { backer: string; amount: string; tierIndex: number }) => void;
+    onFundReceived?: (data: { backer: string; amount: string; tierIndex: number; symbol: string }) => void;
+    onDonationReceived?: (data: { backer: string; amount: string; symbol: string }) => void;
     onStateChanged?: (data: { newState: number }) => void;
-    onTierAdded?: (data: { name: string; amount: string }) => void;
+    onTierAdded?: (data: { name: string; amount: string; symbol: string }) => void;
     onTierRemoved?: (data: { index: number }) => void;
-    onWithdraw?: (data: { owner: string; amount: string }) => void;
-    onRefund?: (data: { backer: string; amount: string }) => void;
+    onTierUpdated?: (data: { index: number; name: string; amount: string; symbol: string }) => void;
+    onMilestoneApproved?: (data: { index: number; backer: string; weight: string; symbol: string }) => void;
+    onMilestoneReleased?: (data: { index: number; amount: string; symbol: string }) => void;
+    onStretchGoalAdded?: (data: { index: number; amount: string; symbol: string }) => void;
+    onStretchGoalReached?: (data: { index: number; amount: string; symbol: string }) => void;
+    onWithdraw?: (data: { owner: string; amount: string; symbol: string }) => void;
+    onRefund?: (data: { backer: string; amount: string; symbol: string }) => void;
     onPaused?: (data: { paused: boolean }) => void;
     onDeadlineExtended?: (data: { newDeadline: number }) => void;
-    onDetailsUpdated?: (data: { name: string; description: string; goal: string }) => void;
+    onDetailsUpdated?: (data: { name: string; description: string; goal: string; symbol: string }) => void;
     onDeleted?: (data: { by: string }) => void;
-    onEmergencyWithdraw?: (data: { owner: string; amount: string }) => void;
+    onEmergencyWithdraw?: (data: { owner: string; amount: string; symbol: string }) => void;
+    onEmergencyWithdrawRequested?: (data: { owner: string; availableAt: number }) => void;
+    onEmergencyWithdrawCancelled?: (data: { owner: string }) => void;
   }) {
     try {
       // Set up individual event listeners using existing methods
@@ -1417,6 +2658,12 @@ export class Web3Service {
         });
       }
 
+      if (callbacks.onDonationReceived) {
+        await this.listenForDonationReceived(campaignAddress, (data) => {
+          callbacks.onDonationReceived!(data);
+        });
+      }
+
       if (callbacks.onStateChanged) {
         await this.listenForCampaignStateChange(campaignAddress, (data: { newState: number; campaignAddress: string }) => {
           callbacks.onStateChanged!({ newState: data.newState });
@@ -1435,14 +2682,44 @@ export class Web3Service {
         });
       }
 
+      if (callbacks.onTierUpdated) {
+        await this.listenForTierUpdated(campaignAddress, (data) => {
+          callbacks.onTierUpdated!({ index: data.tierIndex, name: data.name, amount: data.amount, symbol: data.symbol });
+        });
+      }
+
+      if (callbacks.onMilestoneApproved) {
+        await this.listenForMilestoneApproved(campaignAddress, (data) => {
+          callbacks.onMilestoneApproved!({ index: data.index, backer: data.backer, weight: data.weight, symbol: data.symbol });
+        });
+      }
+
+      if (callbacks.onMilestoneReleased) {
+        await this.listenForMilestoneReleased(campaignAddress, (data) => {
+          callbacks.onMilestoneReleased!({ index: data.index, amount: data.amount, symbol: data.symbol });
+        });
+      }
+
+      if (callbacks.onStretchGoalAdded) {
+        await this.listenForStretchGoalAdded(campaignAddress, (data) => {
+          callbacks.onStretchGoalAdded!({ index: data.index, amount: data.amount, symbol: data.symbol });
+        });
+      }
+
+      if (callbacks.onStretchGoalReached) {
+        await this.listenForStretchGoalReached(campaignAddress, (data) => {
+          callbacks.onStretchGoalReached!({ index: data.index, amount: data.amount, symbol: data.symbol });
+        });
+      }
+
       if (callbacks.onWithdraw) {
-        await this.listenForFundsWithdrawn(campaignAddress, (data: { owner: string; amount: string }) => {
+        await this.listenForFundsWithdrawn(campaignAddress, (data: { owner: string; amount: string; symbol: string }) => {
           callbacks.onWithdraw!(data);
         });
       }
 
       if (callbacks.onRefund) {
-        await this.listenForRefundIssued(campaignAddress, (data: { backer: string; amount: string }) => {
+        await this.listenForRefundIssued(campaignAddress, (data: { backer: string; amount: string; symbol: string }) => {
           callbacks.onRefund!(data);
         });
       }
@@ -1460,11 +2737,12 @@ export class Web3Service {
       }
 
       if (callbacks.onDetailsUpdated) {
-        await this.listenForCampaignDetailsUpdated(campaignAddress, (data: { newName: string; newDescription: string; newGoal: string; campaignAddress: string }) => {
+        await this.listenForCampaignDetailsUpdated(campaignAddress, (data: { newName: string; newDescription: string; newGoal: string; campaignAddress: string; symbol: string }) => {
           callbacks.onDetailsUpdated!({
             name: data.newName,
             description: data.newDescription,
-            goal: data.newGoal
+            goal: data.newGoal,
+            symbol: data.symbol
           });
         });
       }
@@ -1476,8 +2754,20 @@ export class Web3Service {
       }
 
       if (callbacks.onEmergencyWithdraw) {
-        await this.listenForEmergencyWithdraw(campaignAddress, (data: { owner: string; amount: string; campaignAddress: string }) => {
-          callbacks.onEmergencyWithdraw!({ owner: data.owner, amount: data.amount });
+        await this.listenForEmergencyWithdraw(campaignAddress, (data: { owner: string; amount: string; campaignAddress: string; symbol: string }) => {
+          callbacks.onEmergencyWithdraw!({ owner: data.owner, amount: data.amount, symbol: data.symbol });
+        });
+      }
+
+      if (callbacks.onEmergencyWithdrawRequested) {
+        await this.listenForEmergencyWithdrawRequested(campaignAddress, (data) => {
+          callbacks.onEmergencyWithdrawRequested!(data);
+        });
+      }
+
+      if (callbacks.onEmergencyWithdrawCancelled) {
+        await this.listenForEmergencyWithdrawCancelled(campaignAddress, (data) => {
+          callbacks.onEmergencyWithdrawCancelled!(data);
         });
       }
 
@@ -1528,15 +2818,7 @@ export class Web3Service {
   // Get historical events
   async getHistoricalEvents(campaignAddress: string, eventName: string, fromBlock: number = 0) {
     try {
-      let campaign;
-      if (this.signer) {
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, this.signer);
-      } else if (window.ethereum) {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        campaign = new ethers.Contract(campaignAddress, CROWDFUNDING_ABI, provider);
-      } else {
-        throw new Error('No Ethereum provider available');
-      }
+      const campaign = this.getReadOnlyCampaign(campaignAddress);
 
       const filter = campaign.filters[eventName]();
       const events = await campaign.queryFilter(filter, fromBlock);
@@ -1547,6 +2829,110 @@ export class Web3Service {
     }
   }
 
+  /**
+   * Contribution ledger for a campaign, rebuilt from its FundReceived, DonationReceived and
+   * RefundIssued logs. Records are returned oldest first.
+   */
+  async getContributionHistory(campaignAddress: string): Promise<ContributionRecord[]> {
+    const [events, token] = await Promise.all([
+      this.getCampaignEventLogs(campaignAddress, ['FundReceived', 'DonationReceived', 'RefundIssued']),
+      this.getCampaignToken(campaignAddress)
+    ]);
+
+    return events.map(({ event, log, timestamp }) => ({
+      type: event.name === 'RefundIssued' ? 'refund' as const : 'fund' as const,
+      backer: event.args.backer,
+      amount: ethers.formatUnits(event.args.amount, token.decimals),
+      tierIndex: event.name === 'FundReceived' ? Number(event.args.tierIndex) : null,
+      blockNumber: log.blockNumber,
+      timestamp,
+      transactionHash: log.transactionHash
+    }));
+  }
+
+  /**
+   * Everything that moves a campaign's raised amount or changes its target, oldest first:
+   * contributions, refunds and withdrawals, plus deadline extensions and detail updates.
+   */
+  async getFundingTimeline(campaignAddress: string): Promise<TimelineEvent[]> {
+    const [events, token] = await Promise.all([
+      this.getCampaignEventLogs(campaignAddress, [
+        'FundReceived', 'DonationReceived', 'RefundIssued', 'FundsWithdrawn', 'MilestoneReleased', 'EmergencyWithdraw',
+        'DeadlineExtended', 'CampaignDetailsUpdated'
+      ]),
+      this.getCampaignToken(campaignAddress)
+    ]);
+    const format = (value: bigint) => ethers.formatUnits(value, token.decimals);
+
+    return events.map(({ event, log, timestamp }) => {
+      const base = { blockNumber: log.blockNumber, timestamp, transactionHash: log.transactionHash };
+      switch (event.name) {
+        case 'FundReceived':
+        case 'DonationReceived':
+          return { ...base, type: 'fund' as const, amount: format(event.args.amount) };
+        case 'RefundIssued':
+          return { ...base, type: 'refund' as const, amount: format(event.args.amount) };
+        case 'DeadlineExtended':
+          return { ...base, type: 'deadline_extended' as const, newDeadline: Number(event.args.newDeadline) };
+        case 'CampaignDetailsUpdated':
+          return { ...base, type: 'details_updated' as const, newName: event.args.newName, newGoal: format(event.args.newGoal) };
+        default:
+          return { ...base, type: 'withdraw' as const, amount: format(event.args.amount) };
+      }
+    });
+  }
+
+  /**
+   * Decoded logs of the given CrowdFunding events with their block timestamps, oldest first.
+   * The scan starts at the campaign's creation block when the local index knows it, otherwise
+   * at the factory's deployment block.
+   */
+  private async getCampaignEventLogs(campaignAddress: string, eventNames: string[]) {
+    const chainId = this.getCampaignChain(campaignAddress) ?? ACTIVE_NETWORK.chainId;
+    const provider = this.getReadOnlyProvider(chainId);
+
+    let fromBlock = getNetwork(chainId)?.deploymentBlock ?? 0;
+    try {
+      const snapshot = await this.getCampaignIndexer(chainId)?.getSnapshot();
+      fromBlock = snapshot?.campaigns[ethers.getAddress(campaignAddress)]?.creationBlock ?? fromBlock;
+    } catch (error) {
+      console.warn('Campaign index unavailable, scanning from the deployment block:', error);
+    }
+
+    const logs = await getLogsInChunks(
+      provider,
+      {
+        address: campaignAddress,
+        topics: [eventNames.map((eventName) => campaignInterface.getEvent(eventName)!.topicHash)]
+      },
+      fromBlock,
+      await provider.getBlockNumber()
+    );
+
+    const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+    await Promise.all(blockNumbers.map((blockNumber) => this.getBlockTimestamp(chainId, blockNumber)));
+
+    return logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .flatMap((log) => {
+        const event = campaignInterface.parseLog(log);
+        if (!event) return [];
+        return [{ event, log, timestamp: this.blockTimestamps.get(`${chainId}-${log.blockNumber}`) ?? 0 }];
+      });
+  }
+
+  // Block timestamps never change, so they are cached for the lifetime of the service
+  private async getBlockTimestamp(chainId: number, blockNumber: number): Promise<number> {
+    const key = `${chainId}-${blockNumber}`;
+    let timestamp = this.blockTimestamps.get(key);
+    if (timestamp === undefined) {
+      const block = await this.getReadOnlyProvider(chainId).getBlock(blockNumber);
+      timestamp = block?.timestamp ?? 0;
+      this.blockTimestamps.set(key, timestamp);
+    }
+    return timestamp;
+  }
+
   // Utility method to check if event listeners are active
   hasActiveListeners(): boolean {
     return this.eventListeners.size > 0;
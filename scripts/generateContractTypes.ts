@@ -0,0 +1,259 @@
+/**
+ * Generates lib/contractTypes.ts from the Hardhat artifacts: the ABIs the app talks to the contracts
+ * with, plus typed contract interfaces, struct, enum and event payload types derived from them.
+ *
+ *   (cd blockchain && npx hardhat compile)
+ *   npm run contracts:types            # rewrite lib/contractTypes.ts
+ *   npm run contracts:check            # fail if lib/contractTypes.ts no longer matches the artifacts
+ *
+ * ARTIFACTS_DIR points at a different artifacts directory (default blockchain/artifacts).
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+const ARTIFACTS_DIR = process.env.ARTIFACTS_DIR || path.join(process.cwd(), 'blockchain', 'artifacts');
+const OUTPUT_FILE = path.join(process.cwd(), 'lib', 'contractTypes.ts');
+
+// Contracts the frontend binds to, with the constant their ABI is exported as
+const CONTRACTS = [
+  { name: 'CrowdFunding', abiName: 'CROWDFUNDING_ABI' },
+  { name: 'CrowdFundingFactory', abiName: 'FACTORY_ABI' }
+];
+
+interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[];
+  indexed?: boolean;
+}
+
+interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+}
+
+interface Artifact {
+  contractName: string;
+  sourceName: string;
+  abi: AbiFragment[];
+  buildInfoId: string;
+}
+
+interface AstNode {
+  nodeType?: string;
+  name?: string;
+  canonicalName?: string;
+  members?: Array<{ name: string }>;
+  [key: string]: unknown;
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`${file} not found. Compile the contracts first: (cd blockchain && npx hardhat compile)`);
+    }
+    throw error;
+  }
+}
+
+// "struct CrowdFunding.Tier" -> "CrowdFundingTier"; types are prefixed with their contract so names never clash
+function structTypeName(internalType: string): string {
+  return internalType.replace(/^struct /, '').replace(/\[\d*\]$/g, '').split('.').join('');
+}
+
+function collectStructs(parameters: AbiParameter[], structs: Map<string, AbiParameter[]>) {
+  for (const parameter of parameters) {
+    if (!parameter.components) continue;
+    structs.set(structTypeName(parameter.internalType ?? parameter.type), parameter.components);
+    collectStructs(parameter.components, structs);
+  }
+}
+
+function outputType(parameter: AbiParameter): string {
+  const array = parameter.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const element = { ...parameter, type: array[1], internalType: parameter.internalType?.replace(/\[\d*\]$/, '') };
+    return `${outputType(element)}[]`;
+  }
+  if (parameter.type === 'tuple') return structTypeName(parameter.internalType ?? 'tuple');
+  if (/^u?int\d*$/.test(parameter.type)) return 'bigint';
+  if (parameter.type === 'bool') return 'boolean';
+  return 'string';
+}
+
+function inputType(parameter: AbiParameter): string {
+  const array = parameter.type.match(/^(.*)\[\d*\]$/);
+  if (array) return `${inputType({ ...parameter, type: array[1] })}[]`;
+  if (/^u?int\d*$/.test(parameter.type)) return 'ethers.BigNumberish';
+  if (parameter.type === 'address') return 'ethers.AddressLike';
+  if (parameter.type.startsWith('bytes')) return 'ethers.BytesLike';
+  if (parameter.type === 'bool') return 'boolean';
+  return 'string';
+}
+
+// Unnamed parameters (public mapping getters) get positional names
+function parameterName(parameter: AbiParameter, index: number): string {
+  return parameter.name || `arg${index}`;
+}
+
+function returnType(outputs: AbiParameter[]): string {
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return outputType(outputs[0]);
+  // Several return values come back as a Result readable by name, like a struct
+  return `{ ${outputs.map((output, index) => `${parameterName(output, index)}: ${outputType(output)}`).join('; ')} }`;
+}
+
+function findEnums(node: unknown, enums: Map<string, string[]>) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => findEnums(child, enums));
+  } else if (node && typeof node === 'object') {
+    const astNode = node as AstNode;
+    if (astNode.nodeType === 'EnumDefinition' && astNode.canonicalName && astNode.members) {
+      enums.set(astNode.canonicalName.split('.').join(''), astNode.members.map((member) => member.name));
+    }
+    Object.values(astNode).forEach((child) => findEnums(child, enums));
+  }
+}
+
+function generateContract(contract: { name: string; abiName: string }, artifact: Artifact, structs: Map<string, AbiParameter[]>): string[] {
+  const iface = new ethers.Interface(artifact.abi);
+  const functions = artifact.abi.filter((fragment) => fragment.type === 'function');
+  const events = artifact.abi.filter((fragment) => fragment.type === 'event');
+  const errors = artifact.abi.filter((fragment) => fragment.type === 'error');
+  const lines: string[] = [];
+
+  lines.push(`export const ${contract.abiName} = [`);
+  const formatted = iface.format(false) as string[];
+  formatted.forEach((signature, index) => lines.push(`  ${JSON.stringify(signature)}${index < formatted.length - 1 ? ',' : ''}`));
+  lines.push('];', '');
+
+  lines.push(`export interface ${contract.name}EventArgs {`);
+  for (const event of events) {
+    const inputs = event.inputs ?? [];
+    lines.push(`  ${event.name}: { ${inputs.map((input, index) => `${parameterName(input, index)}: ${outputType(input)}`).join('; ')} };`);
+  }
+  lines.push('}', '');
+
+  lines.push(`export interface ${contract.name}EventListeners {`);
+  for (const event of events) {
+    const inputs = event.inputs ?? [];
+    const parameters = inputs.map((input, index) => `${parameterName(input, index)}: ${outputType(input)}`);
+    lines.push(`  ${event.name}: (${[...parameters, 'event: ethers.ContractEventPayload'].join(', ')}) => void;`);
+  }
+  lines.push('}', '');
+
+  // Custom errors the contract reverts with, so UI messages can be keyed by them
+  lines.push(`export type ${contract.name}ErrorName =`);
+  if (errors.length === 0) lines.push('  never;');
+  errors.forEach((error, index) => lines.push(`  | '${error.name}'${index < errors.length - 1 ? '' : ';'}`));
+  lines.push('');
+
+  lines.push(`export interface ${contract.name}Contract extends ethers.BaseContract {`);
+  for (const fn of functions) {
+    const inputs = (fn.inputs ?? []).map((input, index) => `${parameterName(input, index)}: ${inputType(input)}`);
+    const args = `[${inputs.join(', ')}]`;
+    const result = returnType(fn.outputs ?? []);
+    lines.push(fn.stateMutability === 'view' || fn.stateMutability === 'pure'
+      ? `  ${fn.name}: ContractView<${args}, ${result}>;`
+      : `  ${fn.name}: ContractWrite<${args}, ${result}>;`);
+  }
+  lines.push(
+    `  on<E extends keyof ${contract.name}EventListeners>(event: E, listener: ${contract.name}EventListeners[E]): Promise<this>;`,
+    '}',
+    '',
+    `export function connect${contract.name}(address: string, runner?: ethers.ContractRunner | null): ${contract.name}Contract {`,
+    `  return new ethers.Contract(address, ${contract.abiName}, runner) as unknown as ${contract.name}Contract;`,
+    '}',
+    '',
+    `// A decoded ${contract.name} log, narrowed by event name`,
+    `export type ${contract.name}Log = {`,
+    `  [E in keyof ${contract.name}EventArgs]: { name: E; args: ${contract.name}EventArgs[E] }`,
+    `}[keyof ${contract.name}EventArgs];`,
+    ''
+  );
+
+  for (const fragment of [...functions, ...events]) {
+    collectStructs([...(fragment.inputs ?? []), ...(fragment.outputs ?? [])], structs);
+  }
+
+  return lines;
+}
+
+async function generate(): Promise<string> {
+  const structs = new Map<string, AbiParameter[]>();
+  const enums = new Map<string, string[]>();
+  const contractLines: string[] = [];
+
+  for (const contract of CONTRACTS) {
+    const artifact = await readJson<Artifact>(path.join(ARTIFACTS_DIR, 'contracts', `${contract.name}.sol`, `${contract.name}.json`));
+    const buildInfo = await readJson<{ output: { sources: Record<string, { ast: unknown }> } }>(
+      path.join(ARTIFACTS_DIR, 'build-info', `${artifact.buildInfoId}.output.json`)
+    );
+    Object.values(buildInfo.output.sources).forEach((source) => findEnums(source.ast, enums));
+    contractLines.push(...generateContract(contract, artifact, structs));
+  }
+
+  const lines = [
+    '// Generated by scripts/generateContractTypes.ts from the Hardhat artifacts. Do not edit by hand:',
+    '// compile the contracts and run `npm run contracts:types` instead.',
+    "import { ethers } from 'ethers';",
+    '',
+    'type WithOverrides<A extends unknown[]> = A | [...A, ethers.Overrides];',
+    '',
+    'export interface ContractView<A extends unknown[], R> {',
+    '  (...args: A): Promise<R>;',
+    '  staticCall(...args: A): Promise<R>;',
+    '}',
+    '',
+    'export interface ContractWrite<A extends unknown[], R> {',
+    '  (...args: WithOverrides<A>): Promise<ethers.ContractTransactionResponse>;',
+    '  staticCall(...args: WithOverrides<A>): Promise<R>;',
+    '  estimateGas(...args: WithOverrides<A>): Promise<bigint>;',
+    '}',
+    ''
+  ];
+
+  for (const [name, members] of Array.from(enums.entries()).sort()) {
+    lines.push(`export enum ${name} {`);
+    members.forEach((member, index) => lines.push(`  ${member} = ${index}${index < members.length - 1 ? ',' : ''}`));
+    lines.push('}', '');
+  }
+
+  for (const [name, components] of Array.from(structs.entries()).sort()) {
+    lines.push(`export interface ${name} {`);
+    components.forEach((component, index) => lines.push(`  ${parameterName(component, index)}: ${outputType(component)};`));
+    lines.push('}', '');
+  }
+
+  lines.push(...contractLines);
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+async function main() {
+  const generated = await generate();
+
+  if (process.argv.includes('--check')) {
+    const current = await fs.readFile(OUTPUT_FILE, 'utf8').catch(() => '');
+    if (current !== generated) {
+      console.error(`${path.relative(process.cwd(), OUTPUT_FILE)} does not match the compiled contracts. Run \`npm run contracts:types\` and commit the result.`);
+      process.exit(1);
+    }
+    console.log('Contract types match the artifacts');
+    return;
+  }
+
+  await fs.writeFile(OUTPUT_FILE, generated);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
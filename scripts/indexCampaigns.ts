@@ -0,0 +1,86 @@
+/**
+ * Builds the campaign index outside the browser and keeps it in JSON files, one per chain.
+ *
+ *   npm run index:campaigns            # sync every chain in NEXT_PUBLIC_CAMPAIGN_CHAIN_IDS once
+ *   npm run index:campaigns -- --watch # keep syncing every POLL_INTERVAL_MS
+ *
+ * Re-running resumes from the last processed block stored in each file.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from 'dotenv';
+import { ethers } from 'ethers';
+import type { CampaignIndexSnapshot, IndexStorage } from '../lib/indexer';
+
+config({ path: ['.env.local', '.env'], quiet: true });
+
+const INDEX_DIR = process.env.INDEX_DIR || path.join(process.cwd(), '.campaign-index');
+const POLL_INTERVAL_MS = 15_000;
+
+class JsonFileIndexStorage implements IndexStorage {
+  constructor(private directory: string) {}
+
+  private file(chainId: number) {
+    return path.join(this.directory, `${chainId}.json`);
+  }
+
+  async load(chainId: number): Promise<CampaignIndexSnapshot | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(chainId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Write then rename so an interrupted run never leaves a half-written snapshot behind
+  async save(snapshot: CampaignIndexSnapshot): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.file(snapshot.chainId);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(snapshot, null, 2));
+    await fs.rename(`${target}.tmp`, target);
+  }
+}
+
+async function main() {
+  // Imported after dotenv so the network registry sees the NEXT_PUBLIC_* variables
+  const { ACTIVE_NETWORK, CAMPAIGN_NETWORKS } = await import('../lib/networks');
+  const { CampaignIndexer } = await import('../lib/indexer');
+  const { RPC_URL } = await import('../lib/contracts');
+
+  const storage = new JsonFileIndexStorage(INDEX_DIR);
+  const indexers = CAMPAIGN_NETWORKS.map((network) => {
+    // NEXT_PUBLIC_RPC_URL overrides the active network's RPC, as in the app
+    const rpcUrl = network.chainId === ACTIVE_NETWORK.chainId ? RPC_URL : network.rpcUrls[0];
+    const provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+    return new CampaignIndexer(network, provider, storage, {
+      onProgress: ({ toBlock, targetBlock, campaigns }) =>
+        console.log(`[${network.name}] indexed up to block ${toBlock}/${targetBlock} (${campaigns} campaigns)`)
+    });
+  });
+
+  const watch = process.argv.includes('--watch');
+  do {
+    const results = await Promise.allSettled(indexers.map((indexer) => indexer.sync()));
+    results.forEach((result, index) => {
+      const network = CAMPAIGN_NETWORKS[index];
+      if (result.status === 'fulfilled') {
+        console.log(`[${network.name}] ${Object.keys(result.value.campaigns).length} campaigns, last block ${result.value.lastProcessedBlock}`);
+      } else {
+        console.error(`[${network.name}] sync failed:`, result.reason);
+        process.exitCode = 1;
+      }
+    });
+
+    if (watch) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } while (watch);
+
+  console.log(`Index written to ${INDEX_DIR}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});